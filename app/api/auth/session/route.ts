@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+
+import { getCurrentUser } from '@/lib/auth';
+import { errorResponse } from '@/lib/errors';
+
+/**
+ * GET /api/auth/session
+ * The signed-in user, or null, so statically rendered pages can show the sign-in state
+ */
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+
+    return NextResponse.json(
+      { message: 'Session fetched successfully', user },
+      { status: 200, headers: { 'Cache-Control': 'private, no-store' } }
+    );
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { processEmails } from '@/lib/email';
+import { ApiError, errorResponse } from '@/lib/errors';
+
+const CRON_BATCH_SIZE = 200;
+
+/**
+ * GET /api/cron/emails
+ * Send the queued emails that are due, including reminders and retries
+ * Call it every few minutes from a scheduler with "Authorization: Bearer <CRON_SECRET>"
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || req.headers.get('authorization') !== `Bearer ${secret}`) {
+      throw new ApiError(401, 'Unauthorized');
+    }
+
+    // Larger batches than the sends kicked off by requests, to work through bulk messages to attendees
+    const summary = await processEmails(CRON_BATCH_SIZE);
+
+    return NextResponse.json({ message: 'Email outbox processed', ...summary }, { status: 200 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
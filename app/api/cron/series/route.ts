@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { ApiError, errorResponse } from '@/lib/errors';
+import { revalidateEvents } from '@/lib/events';
+import { scheduleAllSeries } from '@/lib/series';
+
+/**
+ * GET /api/cron/series
+ * Schedule the occurrences of recurring events that moved into the 90-day horizon, and list each series with its
+ * next date once the previous one has ended
+ * Call it every hour from a scheduler with "Authorization: Bearer <CRON_SECRET>"
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || req.headers.get('authorization') !== `Bearer ${secret}`) {
+      throw new ApiError(401, 'Unauthorized');
+    }
+
+    const summary = await scheduleAllSeries();
+    if (summary.created > 0 || summary.moved > 0) revalidateEvents();
+
+    return NextResponse.json({ message: 'Series scheduled', ...summary }, { status: 200 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest } from 'next/server';
+
+import connectToDatabase from '@/lib/mongoose';
+import { Booking, Event, type IBooking, type IEvent } from '@/database';
+import { requireEventManager } from '@/lib/auth';
+import { ATTENDEE_FILTERS, attendeeFilter, toAttendeeRecord, toCsvRow, type AttendeeFilter } from '@/lib/dashboard';
+import { ApiError, errorResponse } from '@/lib/errors';
+
+interface RouteContext {
+  params: Promise<{ slug: string }>;
+}
+
+const CSV_COLUMNS = ['email', 'status', 'bookedAt', 'promotedAt', 'cancelledAt'] as const;
+
+/**
+ * GET /api/events/[slug]/attendees?format=csv|json&status=
+ * Export an event's attendees in booking order, streamed so large events don't have to fit in memory
+ * Only the event's owner or an admin may export attendees
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { slug } = await params;
+    const format = req.nextUrl.searchParams.get('format') ?? 'csv';
+    const status = (req.nextUrl.searchParams.get('status') ?? 'all') as AttendeeFilter;
+
+    const errors: Record<string, string> = {};
+    if (format !== 'csv' && format !== 'json') errors.format = 'Format must be csv or json';
+    if (!ATTENDEE_FILTERS.includes(status)) errors.status = 'Status must be all, confirmed, waitlisted or cancelled';
+    if (Object.keys(errors).length > 0) throw new ApiError(400, 'Invalid export parameters', errors);
+
+    await connectToDatabase();
+
+    const event = await Event.findOne({ slug: slug.toLowerCase() })
+      .select('_id slug ownerId')
+      .lean<Pick<IEvent, '_id' | 'slug' | 'ownerId'>>();
+    if (!event) throw new ApiError(404, `Event "${slug}" not found`);
+    await requireEventManager(event);
+
+    const cursor = Booking.find(attendeeFilter(event._id, status))
+      .sort({ createdAt: 1, _id: 1 })
+      .lean<IBooking>()
+      .cursor();
+    const encoder = new TextEncoder();
+
+    const body = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        try {
+          let first = true;
+          controller.enqueue(encoder.encode(format === 'csv' ? `${CSV_COLUMNS.join(',')}\r\n` : '['));
+
+          for await (const booking of cursor) {
+            const record = toAttendeeRecord(booking);
+            const line =
+              format === 'csv'
+                ? `${toCsvRow(CSV_COLUMNS.map((column) => record[column]))}\r\n`
+                : `${first ? '' : ','}\n${JSON.stringify(record)}`;
+            controller.enqueue(encoder.encode(line));
+            first = false;
+          }
+
+          if (format === 'json') controller.enqueue(encoder.encode('\n]\n'));
+          controller.close();
+        } catch (error) {
+          console.error(`❌ Failed to export attendees of ${event.slug}:`, error);
+          controller.error(error);
+        }
+      },
+      async cancel() {
+        await cursor.close();
+      },
+    });
+
+    const filename = `${event.slug}-attendees${status === 'all' ? '' : `-${status}`}.${format}`;
+
+    return new Response(body, {
+      status: 200,
+      headers: {
+        'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
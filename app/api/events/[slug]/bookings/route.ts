@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import connectToDatabase from '@/lib/mongoose';
+import { Booking, Event, type IEvent } from '@/database';
+import { capture, emailDistinctId } from '@/lib/analytics';
+import { requireEventManager } from '@/lib/auth';
+import {
+  ALREADY_REGISTERED_MESSAGE,
+  cancelBooking,
+  createBooking,
+  getBookingCount,
+  getManageUrl,
+} from '@/lib/bookings';
+import { sendEmailsAfterResponse } from '@/lib/email';
+import { ApiError, errorResponse, isDuplicateKeyError } from '@/lib/errors';
+import { revalidateEvents } from '@/lib/events';
+
+interface RouteContext {
+  params: Promise<{ slug: string }>;
+}
+
+/**
+ * Look up the event a booking request refers to
+ */
+async function findEvent(slug: string) {
+  await connectToDatabase();
+
+  const event = await Event.findOne({ slug: slug.toLowerCase() })
+    .select('_id slug capacity ownerId cancelledAt')
+    .lean<Pick<IEvent, '_id' | 'slug' | 'capacity' | 'ownerId' | 'cancelledAt'>>();
+  if (!event) throw new ApiError(404, `Event "${slug}" not found`);
+
+  return event;
+}
+
+/**
+ * GET /api/events/[slug]/bookings
+ * Number of people booked for the event and how many seats are left
+ */
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  try {
+    const { slug } = await params;
+    const event = await findEvent(slug);
+
+    const [count, waitlisted] = await Promise.all([
+      getBookingCount(event._id),
+      Booking.countDocuments({ eventId: event._id, status: 'active', waitlisted: true }),
+    ]);
+    const spotsLeft = event.capacity ? Math.max(event.capacity - count, 0) : null;
+
+    return NextResponse.json(
+      { message: 'Bookings counted successfully', count, waitlisted, capacity: event.capacity ?? null, spotsLeft },
+      { status: 200 }
+    );
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * POST /api/events/[slug]/bookings
+ * Book a spot at the event for the given email, or join the waitlist when it's full
+ */
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  // Known once the event was found, so rejected duplicates can be attributed to it
+  let event: Awaited<ReturnType<typeof findEvent>> | undefined;
+  let email = '';
+
+  try {
+    const { slug } = await params;
+    const body = await req.json();
+    if (typeof body !== 'object' || body === null) {
+      throw new ApiError(400, 'Validation failed', { email: 'Email is required' });
+    }
+    email = typeof body.email === 'string' ? body.email : '';
+    event = await findEvent(slug);
+    if (event.cancelledAt) throw new ApiError(409, 'This date has been cancelled');
+
+    const { booking, waitlisted, position } = await createBooking(event._id, email);
+    capture(
+      'booking_created',
+      { event_id: String(event._id), slug: event.slug, waitlisted },
+      emailDistinctId(booking.email)
+    );
+    const manageUrl = await getManageUrl(booking);
+    sendEmailsAfterResponse();
+
+    // Refresh the booked count and spots left shown on the event page and cards
+    revalidateEvents(event.slug);
+
+    return NextResponse.json(
+      {
+        message: waitlisted ? 'Added to the waitlist' : 'Booking created successfully',
+        booking: { id: booking._id, email: booking.email, waitlisted, position, manageUrl },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      if (event) {
+        capture(
+          'booking_duplicate_rejected',
+          { event_id: String(event._id), slug: event.slug },
+          email ? emailDistinctId(email) : undefined
+        );
+      }
+      return NextResponse.json(
+        { message: ALREADY_REGISTERED_MESSAGE, errors: { email: ALREADY_REGISTERED_MESSAGE } },
+        { status: 409 }
+      );
+    }
+    return errorResponse(error);
+  }
+}
+
+/**
+ * DELETE /api/events/[slug]/bookings?email=
+ * Cancel a booking, promoting the first person on the waitlist
+ * Only the event's owner or an admin may cancel bookings, attendees use their manage link
+ */
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { slug } = await params;
+    const email = req.nextUrl.searchParams.get('email')?.trim().toLowerCase();
+    if (!email) throw new ApiError(400, 'Validation failed', { email: 'Email is required' });
+
+    const event = await findEvent(slug);
+    await requireEventManager(event);
+
+    const booking = await Booking.findOne({ eventId: event._id, email, status: 'active' }).select('_id');
+    const result = booking ? await cancelBooking(booking._id) : null;
+    if (!result) throw new ApiError(404, `No booking found for ${email}`);
+    if (result.promoted.length > 0) sendEmailsAfterResponse();
+
+    capture(
+      'booking_cancelled',
+      {
+        event_id: String(event._id),
+        booking_id: String(result.booking._id),
+        cancelled_by: 'organizer',
+        promoted: result.promoted.length,
+      },
+      emailDistinctId(email)
+    );
+
+    revalidateEvents(event.slug);
+
+    // Only how many were promoted, the emails of other attendees stay private
+    return NextResponse.json(
+      { message: 'Booking cancelled successfully', promoted: result.promoted.length },
+      { status: 200 }
+    );
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
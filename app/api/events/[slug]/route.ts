@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import connectToDatabase from '@/lib/mongoose';
+import { Event, type IEvent } from '@/database';
+import { requireEventManager } from '@/lib/auth';
+import { deleteEventBookings, fillFromWaitlist, rescheduleReminders, syncBookedCount } from '@/lib/bookings';
+import { sendEmailsAfterResponse } from '@/lib/email';
+import { ApiError, errorResponse } from '@/lib/errors';
+import {
+  DUPLICATE_EVENT_MESSAGES,
+  PRIVATE_EVENT_FIELDS,
+  keepSessionIds,
+  pickEventFields,
+  revalidateEvents,
+  saveEvent,
+} from '@/lib/events';
+import { cancelOccurrence, recordOverrides, refreshNextOccurrence } from '@/lib/series';
+
+interface RouteContext {
+  params: Promise<{ slug: string }>;
+}
+
+/**
+ * GET /api/events/[slug]
+ * Fetch a single event
+ */
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  try {
+    const { slug } = await params;
+
+    await connectToDatabase();
+
+    const event = await Event.findOne({ slug: slug.toLowerCase() }).select(PRIVATE_EVENT_FIELDS).lean<IEvent>();
+    if (!event) throw new ApiError(404, `Event "${slug}" not found`);
+
+    return NextResponse.json({ message: 'Event fetched successfully', event }, { status: 200 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * PATCH /api/events/[slug]
+ * Update an event, saving the document so slug and date/time normalization run again
+ * Fields changed on an occurrence of a series are kept when the series is edited later
+ * Only the event's owner or an admin may update it
+ */
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { slug } = await params;
+    const body = await req.json();
+
+    await connectToDatabase();
+
+    const event = await Event.findOne({ slug: slug.toLowerCase() });
+    if (!event) throw new ApiError(404, `Event "${slug}" not found`);
+    const user = await requireEventManager(event);
+
+    const fields = pickEventFields(body, user);
+    // Replaced sessions keep their ids, attendees' saved schedules refer to them
+    if ('agenda' in fields) fields.agenda = keepSessionIds(event.agenda, fields.agenda);
+    event.set(fields);
+    recordOverrides(event);
+    const capacityChanged = event.isModified('capacity');
+    const rescheduled = event.isModified(['date', 'time', 'timezone', 'endDate', 'endTime']);
+    await saveEvent(event);
+
+    if (rescheduled) {
+      await rescheduleReminders(event._id);
+      // A moved date can change which one its series lists
+      if (event.seriesId) await refreshNextOccurrence(event.seriesId);
+    }
+
+    // Seats may have opened up, or this is the first time bookings are counted against a capacity
+    if (capacityChanged) {
+      await syncBookedCount(event._id);
+      if ((await fillFromWaitlist(event._id)).length > 0) sendEmailsAfterResponse();
+    }
+
+    // The slug changes with the title, so refresh both the old and the new page
+    revalidateEvents(slug, event.slug);
+
+    return NextResponse.json({ message: 'Event updated successfully', event }, { status: 200 });
+  } catch (error) {
+    return errorResponse(error, DUPLICATE_EVENT_MESSAGES);
+  }
+}
+
+/**
+ * DELETE /api/events/[slug]
+ * Delete an event together with its bookings and their queued emails
+ * Occurrences of a series are cancelled instead, so the series doesn't schedule the date again, and their
+ * attendees are emailed that their bookings were cancelled
+ * Only the event's owner or an admin may delete it
+ */
+export async function DELETE(_req: NextRequest, { params }: RouteContext) {
+  try {
+    const { slug } = await params;
+
+    await connectToDatabase();
+
+    const event = await Event.findOne({ slug: slug.toLowerCase() }).select('_id slug ownerId seriesId');
+    if (!event) throw new ApiError(404, `Event "${slug}" not found`);
+    await requireEventManager(event);
+
+    if (event.seriesId) {
+      if ((await cancelOccurrence(event._id)) > 0) sendEmailsAfterResponse();
+      revalidateEvents(event.slug);
+
+      return NextResponse.json({ message: 'Occurrence cancelled successfully' }, { status: 200 });
+    }
+
+    await Event.deleteOne({ _id: event._id });
+    await deleteEventBookings([event._id]);
+    revalidateEvents(event.slug);
+
+    return NextResponse.json({ message: 'Event deleted successfully' }, { status: 200 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
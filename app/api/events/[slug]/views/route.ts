@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { capture } from '@/lib/analytics';
+import { ApiError, errorResponse } from '@/lib/errors';
+import { getEventBySlug } from '@/lib/events';
+
+interface RouteContext {
+  params: Promise<{ slug: string }>;
+}
+
+/**
+ * POST /api/events/[slug]/views
+ * Record a view of the event page, sent by the browser since the page itself is served from the cache
+ */
+export async function POST(_req: NextRequest, { params }: RouteContext) {
+  try {
+    const { slug } = await params;
+    const event = await getEventBySlug(slug);
+    if (!event) throw new ApiError(404, `Event "${slug}" not found`);
+
+    capture('event_viewed', { event_id: String(event._id), slug: event.slug });
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
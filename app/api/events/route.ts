@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import connectToDatabase from '@/lib/mongoose';
+import { Event } from '@/database';
+import { capture, eventCreatedProperties } from '@/lib/analytics';
+import { requireUser } from '@/lib/auth';
+import { errorResponse } from '@/lib/errors';
+import { parseEventSearchParams, searchEvents } from '@/lib/event-search';
+import { DUPLICATE_EVENT_MESSAGES, pickEventFields, revalidateEvents, saveEvent } from '@/lib/events';
+
+/**
+ * GET /api/events
+ * List events ordered by date
+ * Query params: q, mode, tag (repeatable), location, from, to, cursor, limit
+ * and lat, lng, radius (km, default 50) for events near a point
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const params = parseEventSearchParams(req.nextUrl.searchParams);
+    const { events, nextCursor } = await searchEvents(params);
+
+    return NextResponse.json({ message: 'Events fetched successfully', events, nextCursor }, { status: 200 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * POST /api/events
+ * Create an event from a JSON body, owned by the signed-in organizer
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const user = await requireUser();
+    const body = await req.json();
+
+    await connectToDatabase();
+
+    const event = await saveEvent(new Event({ ...pickEventFields(body, user), ownerId: user.id }));
+    revalidateEvents();
+    capture('event_created', eventCreatedProperties(event), user.id);
+
+    return NextResponse.json({ message: 'Event created successfully', event }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, DUPLICATE_EVENT_MESSAGES);
+  }
+}
@@ -0,0 +1,104 @@
+import { Types } from 'mongoose';
+import { NextRequest, NextResponse } from 'next/server';
+
+import connectToDatabase from '@/lib/mongoose';
+import { Event, Series, type IEvent, type ISeries } from '@/database';
+import { requireEventManager } from '@/lib/auth';
+import { sendEmailsAfterResponse } from '@/lib/email';
+import { ApiError, errorResponse } from '@/lib/errors';
+import { DUPLICATE_EVENT_MESSAGES, PRIVATE_EVENT_FIELDS, revalidateEvents } from '@/lib/events';
+import { formatRRule } from '@/lib/recurrence';
+import { deleteSeries, parseRecurrence, pickSeriesTemplate, updateSeries } from '@/lib/series';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+async function findSeries(id: string) {
+  await connectToDatabase();
+
+  const series = Types.ObjectId.isValid(id) ? await Series.findById(id) : null;
+  if (!series) throw new ApiError(404, `Series "${id}" not found`);
+
+  return series as ISeries;
+}
+
+/**
+ * GET /api/series/[id]
+ * Fetch a series with its scheduled occurrences, ordered by date
+ */
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const series = await findSeries(id);
+
+    const occurrences = await Event.find({ seriesId: series._id })
+      .select(PRIVATE_EVENT_FIELDS)
+      .sort({ date: 1 })
+      .lean<IEvent[]>();
+
+    // The online URL is only shared with attendees
+    const template = { ...series.template };
+    delete template.onlineUrl;
+
+    return NextResponse.json(
+      {
+        message: 'Series fetched successfully',
+        series: { ...series.toObject(), template },
+        rrule: formatRRule(series.recurrence),
+        occurrences,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * PATCH /api/series/[id]
+ * Change the content or recurrence of a series, occurrences that haven't started yet follow along
+ * The date of the first occurrence can't be changed, and fields edited on a single occurrence are kept
+ * Only the series' owner or an admin may update it
+ */
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const body = await req.json();
+    const series = await findSeries(id);
+    await requireEventManager(series);
+
+    const recurrence =
+      body?.recurrence !== undefined ? parseRecurrence(body.recurrence, series.startDate) : undefined;
+    const { slugs, promoted, cancelled } = await updateSeries(series, pickSeriesTemplate(body), recurrence);
+
+    revalidateEvents(...slugs);
+    if (promoted > 0 || cancelled > 0) sendEmailsAfterResponse();
+
+    return NextResponse.json(
+      { message: 'Series updated successfully', series, rrule: formatRRule(series.recurrence) },
+      { status: 200 }
+    );
+  } catch (error) {
+    return errorResponse(error, DUPLICATE_EVENT_MESSAGES);
+  }
+}
+
+/**
+ * DELETE /api/series/[id]
+ * Delete a series together with all its occurrences and their bookings
+ * Only the series' owner or an admin may delete it
+ */
+export async function DELETE(_req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const series = await findSeries(id);
+    await requireEventManager(series);
+
+    revalidateEvents(...(await deleteSeries(series._id)));
+
+    return NextResponse.json({ message: 'Series deleted successfully' }, { status: 200 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { capture, eventCreatedProperties } from '@/lib/analytics';
+import { requireUser } from '@/lib/auth';
+import { errorResponse } from '@/lib/errors';
+import { DUPLICATE_EVENT_MESSAGES, revalidateEvents } from '@/lib/events';
+import { formatRRule } from '@/lib/recurrence';
+import { createSeries, parseRecurrence, pickSeriesTemplate } from '@/lib/series';
+
+/**
+ * POST /api/series
+ * Create a recurring event from a JSON body with the event fields, the date of the first occurrence and a
+ * recurrence, either an RRULE such as "FREQ=WEEKLY;INTERVAL=2;COUNT=10" or { frequency, interval, count, until }
+ * Occurrences for the next 90 days are created right away, owned by the signed-in organizer
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const user = await requireUser();
+    const body = await req.json();
+
+    const recurrence = parseRecurrence(body?.recurrence, body?.date);
+    const { series, occurrences } = await createSeries(pickSeriesTemplate(body), body?.date, recurrence, user.id);
+    revalidateEvents();
+    if (occurrences[0]) capture('event_created', eventCreatedProperties(occurrences[0]), user.id);
+
+    return NextResponse.json(
+      { message: 'Series created successfully', series, rrule: formatRRule(series.recurrence), occurrences },
+      { status: 201 }
+    );
+  } catch (error) {
+    return errorResponse(error, DUPLICATE_EVENT_MESSAGES);
+  }
+}
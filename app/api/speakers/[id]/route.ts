@@ -0,0 +1,88 @@
+import { Types } from 'mongoose';
+import { NextRequest, NextResponse } from 'next/server';
+
+import connectToDatabase from '@/lib/mongoose';
+import { Event, Speaker, type IEvent, type ISpeaker } from '@/database';
+import { requireEventManager } from '@/lib/auth';
+import { ApiError, errorResponse } from '@/lib/errors';
+import { revalidateEvents } from '@/lib/events';
+import { deleteSpeaker, pickSpeakerFields, toSpeakerItem } from '@/lib/speakers';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+async function findSpeaker(id: string) {
+  await connectToDatabase();
+
+  const speaker = Types.ObjectId.isValid(id) ? await Speaker.findById(id) : null;
+  if (!speaker) throw new ApiError(404, `Speaker "${id}" not found`);
+
+  return speaker as ISpeaker;
+}
+
+/**
+ * GET /api/speakers/[id]
+ * Fetch a speaker
+ */
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const speaker = await findSpeaker(id);
+
+    return NextResponse.json(
+      { message: 'Speaker fetched successfully', speaker: toSpeakerItem(speaker) },
+      { status: 200 }
+    );
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * PATCH /api/speakers/[id]
+ * Update a speaker, the pages of the events they speak at show the change
+ * Only the organizer who added the speaker or an admin may update them
+ */
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const body = await req.json();
+    const speaker = await findSpeaker(id);
+    await requireEventManager(speaker);
+
+    speaker.set(pickSpeakerFields(body));
+    await speaker.save();
+
+    const events = await Event.find({ 'agenda.speakerIds': speaker._id })
+      .select('slug')
+      .lean<Pick<IEvent, 'slug'>[]>();
+    revalidateEvents(...events.map(({ slug }) => slug));
+
+    return NextResponse.json(
+      { message: 'Speaker updated successfully', speaker: toSpeakerItem(speaker) },
+      { status: 200 }
+    );
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * DELETE /api/speakers/[id]
+ * Delete a speaker and take them off every session
+ * Only the organizer who added the speaker or an admin may delete them
+ */
+export async function DELETE(_req: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const speaker = await findSpeaker(id);
+    await requireEventManager(speaker);
+
+    revalidateEvents(...(await deleteSpeaker(speaker._id)));
+
+    return NextResponse.json({ message: 'Speaker deleted successfully' }, { status: 200 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import connectToDatabase from '@/lib/mongoose';
+import { Speaker, type ISpeaker } from '@/database';
+import { requireUser } from '@/lib/auth';
+import { errorResponse } from '@/lib/errors';
+import { pickSpeakerFields, toSpeakerItem } from '@/lib/speakers';
+
+/**
+ * GET /api/speakers
+ * List the speakers the signed-in organizer added, by name
+ */
+export async function GET() {
+  try {
+    const user = await requireUser();
+    await connectToDatabase();
+
+    const speakers = await Speaker.find({ ownerId: user.id }).sort({ name: 1 }).lean<ISpeaker[]>();
+
+    return NextResponse.json(
+      { message: 'Speakers fetched successfully', speakers: speakers.map(toSpeakerItem) },
+      { status: 200 }
+    );
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * POST /api/speakers
+ * Add a speaker from a JSON body with name, bio, avatar and links ({ label, url }[])
+ * The speaker belongs to the signed-in organizer and can be put on the sessions of any of their events
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const user = await requireUser();
+    const body = await req.json();
+    await connectToDatabase();
+
+    const speaker = await Speaker.create({ ...pickSpeakerFields(body), ownerId: user.id });
+
+    return NextResponse.json(
+      { message: 'Speaker created successfully', speaker: toSpeakerItem(speaker) },
+      { status: 201 }
+    );
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { requireUser } from '@/lib/auth';
+import { ApiError, errorResponse } from '@/lib/errors';
+import { POSTER_MAX_BYTES } from '@/lib/posters';
+import { uploadPoster } from '@/lib/storage/posters';
+
+/**
+ * Room for the multipart boundaries and headers around the file
+ */
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024;
+
+/**
+ * Error for a poster over POSTER_MAX_BYTES, reported next to the image field
+ */
+function posterTooLarge(): ApiError {
+  const message = `Poster cannot exceed ${POSTER_MAX_BYTES / 1024 / 1024} MB`;
+  return new ApiError(413, message, { image: message });
+}
+
+/**
+ * Read the multipart body, stopping as soon as it grows past the limit
+ * Content-Length can be left out or lie (e.g. with chunked uploads), so the bytes are counted as they arrive
+ */
+async function readFormData(req: NextRequest, maxBytes: number): Promise<FormData> {
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  const reader = req.body?.getReader();
+  while (reader) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw posterTooLarge();
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+
+  return new Response(body, { headers: { 'Content-Type': req.headers.get('content-type') ?? '' } }).formData();
+}
+
+/**
+ * POST /api/uploads/posters
+ * Upload an event poster as multipart form data with a "file" field, for signed-in organizers
+ * Returns the URL to save as the event's image
+ */
+export async function POST(req: NextRequest) {
+  try {
+    await requireUser();
+
+    // Reject uploads that announce an oversized body before reading it
+    const maxBytes = POSTER_MAX_BYTES + MULTIPART_OVERHEAD_BYTES;
+    if (Number(req.headers.get('content-length')) > maxBytes) throw posterTooLarge();
+
+    const file = (await readFormData(req, maxBytes)).get('file');
+    if (!(file instanceof File)) {
+      throw new ApiError(400, 'Validation failed', { image: 'Please choose an image to upload' });
+    }
+
+    const poster = await uploadPoster(file);
+
+    return NextResponse.json({ message: 'Poster uploaded successfully', poster }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
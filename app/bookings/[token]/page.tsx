@@ -0,0 +1,90 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+
+import ManageBooking from '@/app/components/ManageBooking'
+import connectToDatabase from '@/lib/mongoose'
+import { Event, type IEvent } from '@/database'
+import { findBookingByToken, getWaitlistPosition } from '@/lib/bookings'
+import { toEventItem } from '@/lib/events'
+import { formatEventDateTime } from '@/lib/timezone'
+
+// Manage links are private, keep them out of search engines and other sites' referrer logs
+export const metadata: Metadata = {
+  title: 'Manage your booking | DevEvent',
+  robots: { index: false, follow: false },
+  referrer: 'no-referrer',
+}
+
+// Always show the booking's current status
+export const dynamic = 'force-dynamic'
+
+interface Props {
+  params: Promise<{ token: string }>
+}
+
+const ManageBookingPage = async ({ params }: Props) => {
+  const { token } = await params
+  const booking = await findBookingByToken(token)
+
+  if (!booking) {
+    return (
+      <section id="manage-booking">
+        <h1>Link expired</h1>
+        <p>This link is invalid or has expired. If your booking was transferred, the new attendee has their own link.</p>
+      </section>
+    )
+  }
+
+  await connectToDatabase()
+  const event = await Event.findById(booking.eventId).lean<IEvent>()
+  const { timezone, startsAt } = event ? toEventItem(event) : { timezone: 'UTC', startsAt: null }
+
+  const active = booking.status === 'active'
+  const position = active && booking.waitlisted ? await getWaitlistPosition(booking) : null
+
+  return (
+    <section id="manage-booking">
+      <h1>Your booking</h1>
+
+      <dl className="details">
+        <div>
+          <dt>Event</dt>
+          <dd>{event ? <Link href={`/events/${event.slug}`}>{event.title}</Link> : 'This event no longer exists'}</dd>
+        </div>
+        {startsAt && (
+          <div>
+            <dt>When</dt>
+            <dd>{formatEventDateTime(new Date(startsAt), timezone)}</dd>
+          </div>
+        )}
+        {active && !booking.waitlisted && event?.onlineUrl && (
+          <div>
+            <dt>Join online</dt>
+            <dd>
+              <a href={event.onlineUrl} target="_blank" rel="noopener noreferrer">
+                {event.onlineUrl}
+              </a>
+            </dd>
+          </div>
+        )}
+        <div>
+          <dt>Email</dt>
+          <dd>{booking.email}</dd>
+        </div>
+        <div>
+          <dt>Status</dt>
+          <dd>
+            {!active
+              ? `Cancelled${booking.cancelledAt ? ` on ${booking.cancelledAt.toLocaleDateString('en-US', { dateStyle: 'medium' })}` : ''}`
+              : position !== null
+                ? `#${position} on the waitlist`
+                : 'Confirmed'}
+          </dd>
+        </div>
+      </dl>
+
+      {active && event && <ManageBooking token={token} email={booking.email} />}
+    </section>
+  )
+}
+export default ManageBookingPage
@@ -0,0 +1,28 @@
+import { NextRequest } from 'next/server';
+
+import { errorResponse } from '@/lib/errors';
+import { getUpcomingEvents } from '@/lib/events';
+import { buildCalendar, calendarResponse } from '@/lib/ical';
+
+/**
+ * GET /calendar.ics
+ * Subscribable feed of upcoming events, cancelled dates stay in it as cancelled so subscribers remove them
+ * Query params: tag (repeatable), only include events with every tag
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const tags = req.nextUrl.searchParams.getAll('tag').map((tag) => tag.trim().toLowerCase()).filter(Boolean);
+
+    const events = await getUpcomingEvents({ tags, includeCancelled: true });
+
+    const calendar = buildCalendar(events, {
+      baseUrl: req.nextUrl.origin,
+      name: tags.length > 0 ? `DevEvent: ${tags.join(', ')}` : 'DevEvent',
+      refreshInterval: 'PT1H',
+    });
+
+    return calendarResponse(calendar);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
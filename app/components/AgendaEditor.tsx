@@ -0,0 +1,253 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+import { emptySession, formatSessionTime, type AgendaSessionValues, type SpeakerItem } from '@/lib/agenda'
+import type { FieldErrors } from '@/lib/errors'
+import { SESSION_MAX_LENGTHS, validateAgendaSessions } from '@/lib/event-rules'
+
+interface Props {
+  sessions: AgendaSessionValues[]
+  onChange: (sessions: AgendaSessionValues[]) => void
+  date: string // Event dates, a session can be placed on any day of a multi-day event
+  endDate: string
+}
+
+const emptySpeaker = { name: '', bio: '', avatar: '', website: '' }
+
+const AgendaEditor = ({ sessions, onChange, date, endDate }: Props) => {
+  const [draft, setDraft] = useState<AgendaSessionValues>(emptySession)
+  const [errors, setErrors] = useState<FieldErrors>({})
+  const [speakers, setSpeakers] = useState<SpeakerItem[]>([])
+  const [speakerDraft, setSpeakerDraft] = useState<typeof emptySpeaker | null>(null)
+  const [speakerError, setSpeakerError] = useState<string | null>(null)
+
+  // Speakers the organizer added before, shared between their events
+  useEffect(() => {
+    fetch('/api/speakers')
+      .then((res) => res.json())
+      .then((data) => setSpeakers(data.speakers ?? []))
+      .catch(() => setSpeakers([]))
+  }, [])
+
+  const setDraftValue = <K extends keyof AgendaSessionValues>(field: K, value: AgendaSessionValues[K]) => {
+    setDraft((prev) => ({ ...prev, [field]: value }))
+  }
+
+  const toggleSpeaker = (id: string) => {
+    const others = draft.speakerIds.filter((speakerId) => speakerId !== id)
+    setDraftValue('speakerIds', others.length < draft.speakerIds.length ? others : [...others, id])
+  }
+
+  const addSession = () => {
+    const found = validateAgendaSessions([draft], { date, endDate })
+    setErrors(found)
+    if (Object.keys(found).length > 0) return
+
+    onChange([...sessions, draft])
+    setDraft(emptySession)
+  }
+
+  const removeSession = (index: number) => {
+    onChange(sessions.filter((_, i) => i !== index))
+  }
+
+  const moveSession = (index: number, offset: number) => {
+    const target = index + offset
+    if (target < 0 || target >= sessions.length) return
+
+    const next = [...sessions]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    onChange(next)
+  }
+
+  const addSpeaker = async () => {
+    if (!speakerDraft) return
+    setSpeakerError(null)
+
+    try {
+      const res = await fetch('/api/speakers', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: speakerDraft.name,
+          bio: speakerDraft.bio || undefined,
+          avatar: speakerDraft.avatar || undefined,
+          links: speakerDraft.website ? [{ label: 'Website', url: speakerDraft.website }] : [],
+        }),
+      })
+      const data = await res.json()
+
+      if (!res.ok) {
+        const [fieldError] = Object.values<string>(data.errors ?? {})
+        setSpeakerError(fieldError ?? data.message)
+        return
+      }
+
+      setSpeakers((prev) => [...prev, data.speaker])
+      setDraftValue('speakerIds', [...draft.speakerIds, data.speaker.id])
+      setSpeakerDraft(null)
+    } catch {
+      setSpeakerError('Something went wrong, please try again')
+    }
+  }
+
+  const speakerNames = (ids: string[]) =>
+    ids.flatMap((id) => speakers.find((speaker) => speaker.id === id)?.name ?? []).join(', ')
+
+  return (
+    <div className="agenda-editor">
+      <ol>
+        {sessions.map((session, index) => (
+          <li key={`${index}-${session.title}`}>
+            <span>
+              {[session.date, formatSessionTime(session), session.title].filter(Boolean).join(' · ')}
+              {session.speakerIds.length > 0 && <small>{speakerNames(session.speakerIds)}</small>}
+            </span>
+            <button type="button" onClick={() => moveSession(index, -1)} disabled={index === 0} aria-label="Move up">
+              ↑
+            </button>
+            <button
+              type="button"
+              onClick={() => moveSession(index, 1)}
+              disabled={index === sessions.length - 1}
+              aria-label="Move down"
+            >
+              ↓
+            </button>
+            <button type="button" onClick={() => removeSession(index)} aria-label="Remove">
+              ✕
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      <div className="session-draft">
+        <input
+          id="agenda"
+          value={draft.title}
+          maxLength={SESSION_MAX_LENGTHS.title}
+          onChange={(e) => setDraftValue('title', e.target.value)}
+          placeholder="Session title, e.g. Opening Keynote"
+        />
+        {errors['0.title'] && <p className="error">{errors['0.title']}</p>}
+
+        <div className="row">
+          {endDate && (
+            <input
+              type="date"
+              aria-label="Session date"
+              min={date}
+              max={endDate}
+              value={draft.date}
+              onChange={(e) => setDraftValue('date', e.target.value)}
+            />
+          )}
+          <input
+            type="time"
+            aria-label="Start time"
+            value={draft.startTime}
+            onChange={(e) => setDraftValue('startTime', e.target.value)}
+          />
+          <input
+            type="time"
+            aria-label="End time"
+            value={draft.endTime}
+            onChange={(e) => setDraftValue('endTime', e.target.value)}
+          />
+        </div>
+        {['0.date', '0.startTime', '0.endTime'].map(
+          (key) =>
+            errors[key] && (
+              <p key={key} className="error">
+                {errors[key]}
+              </p>
+            )
+        )}
+
+        <div className="row">
+          <input
+            value={draft.track}
+            maxLength={SESSION_MAX_LENGTHS.track}
+            onChange={(e) => setDraftValue('track', e.target.value)}
+            placeholder="Track (optional)"
+          />
+          <input
+            value={draft.room}
+            maxLength={SESSION_MAX_LENGTHS.room}
+            onChange={(e) => setDraftValue('room', e.target.value)}
+            placeholder="Room (optional)"
+          />
+        </div>
+
+        <textarea
+          rows={2}
+          value={draft.description}
+          maxLength={SESSION_MAX_LENGTHS.description}
+          onChange={(e) => setDraftValue('description', e.target.value)}
+          placeholder="Description (optional)"
+        />
+
+        <fieldset className="speakers">
+          <legend>Speakers</legend>
+          {speakers.map((speaker) => (
+            <label key={speaker.id}>
+              <input
+                type="checkbox"
+                checked={draft.speakerIds.includes(speaker.id)}
+                onChange={() => toggleSpeaker(speaker.id)}
+              />
+              {speaker.name}
+            </label>
+          ))}
+
+          {speakerDraft ? (
+            <div className="new-speaker">
+              <input
+                value={speakerDraft.name}
+                onChange={(e) => setSpeakerDraft({ ...speakerDraft, name: e.target.value })}
+                placeholder="Name"
+              />
+              <textarea
+                rows={2}
+                value={speakerDraft.bio}
+                onChange={(e) => setSpeakerDraft({ ...speakerDraft, bio: e.target.value })}
+                placeholder="Bio (optional)"
+              />
+              <input
+                type="url"
+                value={speakerDraft.avatar}
+                onChange={(e) => setSpeakerDraft({ ...speakerDraft, avatar: e.target.value })}
+                placeholder="Photo URL (optional)"
+              />
+              <input
+                type="url"
+                value={speakerDraft.website}
+                onChange={(e) => setSpeakerDraft({ ...speakerDraft, website: e.target.value })}
+                placeholder="Website (optional)"
+              />
+              {speakerError && <p className="error">{speakerError}</p>}
+              <div className="row">
+                <button type="button" onClick={addSpeaker}>
+                  Save speaker
+                </button>
+                <button type="button" className="secondary" onClick={() => setSpeakerDraft(null)}>
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button type="button" className="secondary" onClick={() => setSpeakerDraft(emptySpeaker)}>
+              New speaker
+            </button>
+          )}
+        </fieldset>
+
+        <button type="button" onClick={addSession}>
+          Add session
+        </button>
+      </div>
+    </div>
+  )
+}
+export default AgendaEditor
@@ -0,0 +1,123 @@
+'use client'
+
+import { useState, useSyncExternalStore } from 'react'
+import Image from 'next/image'
+
+import { formatSessionTime, type AgendaItem } from '@/lib/agenda'
+import { readSchedule, subscribeToSchedule, toggleSession } from '@/lib/schedule'
+
+interface Props {
+  eventId: string
+  date: string // First day of the event, sessions without a date take place on it
+  multiDay: boolean
+  items: AgendaItem[]
+}
+
+const NO_SESSIONS: string[] = []
+
+const formatDay = (date: string) =>
+  new Intl.DateTimeFormat('en-US', { timeZone: 'UTC', weekday: 'long', month: 'short', day: 'numeric' }).format(
+    new Date(`${date}T00:00:00Z`)
+  )
+
+// Sessions of an event by day, attendees can save the ones they want to attend to their own schedule
+const AgendaTimeline = ({ eventId, date, multiDay, items }: Props) => {
+  const saved = useSyncExternalStore(
+    subscribeToSchedule,
+    () => readSchedule(eventId),
+    () => NO_SESSIONS
+  )
+  const [onlySaved, setOnlySaved] = useState(false)
+
+  const sessions = onlySaved ? items.filter(({ id }) => saved.includes(id)) : items
+  const days = new Map<string, AgendaItem[]>()
+  for (const session of sessions) {
+    const day = session.date ?? date
+    days.set(day, [...(days.get(day) ?? []), session])
+  }
+
+  return (
+    <section id="agenda-timeline">
+      <div className="heading">
+        <h2>Agenda</h2>
+        <div className="filter" role="group" aria-label="Sessions shown">
+          <button type="button" aria-pressed={!onlySaved} onClick={() => setOnlySaved(false)}>
+            All sessions
+          </button>
+          <button type="button" aria-pressed={onlySaved} onClick={() => setOnlySaved(true)}>
+            My schedule ({saved.filter((id) => items.some((item) => item.id === id)).length})
+          </button>
+        </div>
+      </div>
+
+      {onlySaved && sessions.length === 0 && <p className="empty">Save sessions to build your own schedule.</p>}
+
+      {[...days.keys()].sort().map((day) => (
+        <div key={day} className="day">
+          {multiDay && <h3>{formatDay(day)}</h3>}
+
+          <ol>
+            {days.get(day)!.map((session) => {
+              const time = formatSessionTime(session)
+              const isSaved = saved.includes(session.id)
+
+              return (
+                <li key={session.id} className={isSaved ? 'saved' : undefined}>
+                  <p className="time">{time ?? '—'}</p>
+
+                  <div className="session">
+                    <div className="title">
+                      <h4>{session.title}</h4>
+                      <button
+                        type="button"
+                        aria-pressed={isSaved}
+                        onClick={() => toggleSession(eventId, session.id)}
+                      >
+                        {isSaved ? 'Saved' : 'Save'}
+                      </button>
+                    </div>
+
+                    {(session.track || session.room) && (
+                      <div className="flex flex-row gap-1.5 flex-wrap">
+                        {session.track && <span className="pill">{session.track}</span>}
+                        {session.room && <span className="pill">{session.room}</span>}
+                      </div>
+                    )}
+
+                    {session.description && <p className="description">{session.description}</p>}
+
+                    {session.speakers.length > 0 && (
+                      <ul className="speakers">
+                        {session.speakers.map((speaker) => (
+                          <li key={speaker.id}>
+                            {speaker.avatar && (
+                              <Image src={speaker.avatar} alt={speaker.name} width={40} height={40} unoptimized />
+                            )}
+                            <div>
+                              <p className="name">{speaker.name}</p>
+                              {speaker.bio && <p className="bio">{speaker.bio}</p>}
+                              {speaker.links.length > 0 && (
+                                <p className="links">
+                                  {speaker.links.map(({ label, url }) => (
+                                    <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                                      {label}
+                                    </a>
+                                  ))}
+                                </p>
+                              )}
+                            </div>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                </li>
+              )
+            })}
+          </ol>
+        </div>
+      ))}
+    </section>
+  )
+}
+export default AgendaTimeline
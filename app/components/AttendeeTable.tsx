@@ -0,0 +1,106 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+
+import { cancelAttendeeBookings, type DashboardActionResult } from '@/lib/actions/dashboard.actions'
+
+export interface AttendeeRow {
+  id: string
+  email: string
+  status: 'confirmed' | 'waitlisted' | 'cancelled'
+  bookedAt: string
+}
+
+interface Props {
+  slug: string
+  attendees: AttendeeRow[]
+}
+
+const AttendeeTable = ({ slug, attendees }: Props) => {
+  const router = useRouter()
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [pending, setPending] = useState(false)
+  const [result, setResult] = useState<DashboardActionResult | null>(null)
+
+  const cancellable = attendees.filter(({ status }) => status !== 'cancelled')
+  const allSelected = cancellable.length > 0 && cancellable.every(({ id }) => selected.has(id))
+
+  const toggle = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  const toggleAll = () => setSelected(allSelected ? new Set() : new Set(cancellable.map(({ id }) => id)))
+
+  const handleCancel = async () => {
+    if (!window.confirm(`Cancel ${selected.size} ${selected.size === 1 ? 'booking' : 'bookings'}?`)) return
+
+    setPending(true)
+    setResult(null)
+
+    try {
+      const outcome = await cancelAttendeeBookings(slug, [...selected])
+      setResult(outcome)
+      if (outcome.success) {
+        setSelected(new Set())
+        router.refresh()
+      }
+    } catch {
+      setResult({ success: false, message: 'Something went wrong, please try again' })
+    } finally {
+      setPending(false)
+    }
+  }
+
+  if (attendees.length === 0) {
+    return <p className="text-light-200">No attendees here yet.</p>
+  }
+
+  return (
+    <div className="attendees">
+      <table>
+        <thead>
+          <tr>
+            <th>
+              <input type="checkbox" aria-label="Select all" checked={allSelected} onChange={toggleAll} />
+            </th>
+            <th>Email</th>
+            <th>Status</th>
+            <th>Booked</th>
+          </tr>
+        </thead>
+        <tbody>
+          {attendees.map(({ id, email, status, bookedAt }) => (
+            <tr key={id}>
+              <td>
+                <input
+                  type="checkbox"
+                  aria-label={`Select ${email}`}
+                  checked={selected.has(id)}
+                  disabled={status === 'cancelled'}
+                  onChange={() => toggle(id)}
+                />
+              </td>
+              <td>{email}</td>
+              <td className={status}>{status}</td>
+              <td>{new Date(bookedAt).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' })}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="actions">
+        <button type="button" onClick={handleCancel} disabled={pending || selected.size === 0}>
+          {pending ? 'Cancelling...' : `Cancel selected (${selected.size})`}
+        </button>
+        {result && <p className={result.success ? 'text-sm' : 'error'}>{result.message}</p>}
+      </div>
+    </div>
+  )
+}
+export default AttendeeTable
@@ -0,0 +1,108 @@
+'use client'
+
+import { FormEvent, useState } from 'react'
+import { useRouter } from 'next/navigation'
+
+import { track } from '@/lib/analytics/client'
+
+interface Props {
+  slug: string
+  soldOut?: boolean
+}
+
+const BookEvent = ({ slug, soldOut = false }: Props) => {
+  const router = useRouter()
+  const [email, setEmail] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [submitted, setSubmitted] = useState(false)
+  const [waitlistPosition, setWaitlistPosition] = useState<number | null>(null)
+  const [manageUrl, setManageUrl] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [started, setStarted] = useState(false)
+
+  const handleEmailChange = (value: string) => {
+    setEmail(value)
+    if (!started) {
+      setStarted(true)
+      track('booking_form_started', { slug, sold_out: soldOut })
+    }
+  }
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setSubmitting(true)
+    setError(null)
+    track('booking_form_submitted', { slug, sold_out: soldOut })
+
+    try {
+      const res = await fetch(`/api/events/${slug}/bookings`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email }),
+      })
+      const data = await res.json()
+
+      if (!res.ok) {
+        track('booking_form_failed', { slug, status: res.status })
+        setError(data.errors?.email ?? data.message)
+        return
+      }
+
+      track('booking_form_completed', { slug, waitlisted: data.booking.waitlisted })
+      setSubmitted(true)
+      setWaitlistPosition(data.booking.waitlisted ? data.booking.position : null)
+      setManageUrl(data.booking.manageUrl)
+      // Pick up the new booked count
+      router.refresh()
+    } catch {
+      track('booking_form_failed', { slug, status: null })
+      setError('Something went wrong, please try again')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div id="book-event">
+      {submitted ? (
+        <>
+          {waitlistPosition !== null ? (
+            <p className="text-sm">
+              You&apos;re #{waitlistPosition} on the waitlist. We&apos;ll give you a spot as soon as one opens up.
+            </p>
+          ) : (
+            <p className="text-sm">Thank you for signing up! See you at the event.</p>
+          )}
+          {manageUrl && (
+            <p className="text-sm">
+              Keep this link to cancel or transfer your booking later:{' '}
+              <a href={manageUrl} className="text-primary underline break-all">
+                Manage booking
+              </a>
+            </p>
+          )}
+        </>
+      ) : (
+        <form onSubmit={handleSubmit}>
+          <div>
+            <label htmlFor="email">Email Address</label>
+            <input
+              type="email"
+              id="email"
+              value={email}
+              onChange={(e) => handleEmailChange(e.target.value)}
+              placeholder="Enter your email address"
+              required
+            />
+            {error && <p className="text-sm text-red-400">{error}</p>}
+          </div>
+
+          <button type="submit" disabled={submitting}>
+            {submitting ? 'Booking...' : soldOut ? 'Join Waitlist' : 'Book Now'}
+          </button>
+        </form>
+      )}
+    </div>
+  )
+}
+export default BookEvent
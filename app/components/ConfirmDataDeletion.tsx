@@ -0,0 +1,39 @@
+'use client'
+
+import { useState } from 'react'
+
+import { deleteDataByToken, type PrivacyActionResult } from '@/lib/actions/privacy.actions'
+
+// Deletion needs a click rather than happening on page load, so link scanners in mail clients can't trigger it
+const ConfirmDataDeletion = ({ token, email }: { token: string; email: string }) => {
+  const [pending, setPending] = useState(false)
+  const [result, setResult] = useState<PrivacyActionResult | null>(null)
+
+  const handleDelete = async () => {
+    if (!window.confirm(`Delete every booking of ${email}? This cannot be undone.`)) return
+    setPending(true)
+    setResult(null)
+
+    try {
+      setResult(await deleteDataByToken(token))
+    } catch {
+      setResult({ success: false, message: 'Something went wrong, please try again' })
+    } finally {
+      setPending(false)
+    }
+  }
+
+  if (result?.success) {
+    return <p className="text-sm">{result.message}</p>
+  }
+
+  return (
+    <div className="actions">
+      <button type="button" className="delete" onClick={handleDelete} disabled={pending}>
+        {pending ? 'Deleting...' : 'Delete my data'}
+      </button>
+      {result && <p className="error">{result.message}</p>}
+    </div>
+  )
+}
+export default ConfirmDataDeletion
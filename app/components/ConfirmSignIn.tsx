@@ -0,0 +1,50 @@
+'use client'
+
+import { FormEvent, useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+
+import { signInWithLink } from '@/lib/actions/auth.actions'
+
+// Signing in needs a click rather than happening on page load, so link scanners in mail clients can't use the link up
+const ConfirmSignIn = ({ token, next }: { token: string; next: string }) => {
+  const router = useRouter()
+  const [pending, setPending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setPending(true)
+    setError(null)
+
+    try {
+      const result = await signInWithLink(token)
+
+      if (!result.success) {
+        setError(result.message)
+        setPending(false)
+        return
+      }
+
+      router.push(next)
+      router.refresh()
+    } catch {
+      setError('Something went wrong, please try again')
+      setPending(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <button type="submit" disabled={pending}>
+        {pending ? 'Signing in...' : 'Sign in'}
+      </button>
+      {error && (
+        <p className="error">
+          {error}. <Link href={`/sign-in?next=${encodeURIComponent(next)}`}>Request a new link</Link>
+        </p>
+      )}
+    </form>
+  )
+}
+export default ConfirmSignIn
@@ -0,0 +1,31 @@
+'use client'
+
+import Link from 'next/link'
+import { useSyncExternalStore } from 'react'
+
+import { setAnalyticsConsent } from '@/lib/analytics/client'
+import { readConsent, subscribeToConsent } from '@/lib/consent'
+
+// Asks for analytics consent until the visitor answers, never rendered on the server since the choice lives in a cookie
+const ConsentBanner = () => {
+  const consent = useSyncExternalStore(subscribeToConsent, readConsent, () => undefined)
+  if (consent !== null) return null
+
+  return (
+    <div id="consent-banner" role="dialog" aria-label="Cookie consent">
+      <p>
+        We use cookies to understand how DevEvent is used, only if you agree. Booking and signing in work either
+        way. <Link href="/privacy">Privacy settings</Link>
+      </p>
+      <div className="actions">
+        <button type="button" className="secondary" onClick={() => setAnalyticsConsent('denied')}>
+          Decline
+        </button>
+        <button type="button" onClick={() => setAnalyticsConsent('granted')}>
+          Accept
+        </button>
+      </div>
+    </div>
+  )
+}
+export default ConsentBanner
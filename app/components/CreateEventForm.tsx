@@ -0,0 +1,455 @@
+'use client'
+
+import { FormEvent, ReactNode, useState, useSyncExternalStore } from 'react'
+import { useRouter } from 'next/navigation'
+
+import AgendaEditor from './AgendaEditor'
+import PosterUpload from './PosterUpload'
+import TagInput from './TagInput'
+import { createEvent } from '@/lib/actions/event.actions'
+import type { FieldErrors } from '@/lib/errors'
+import { EVENT_MAX_LENGTHS, EVENT_MODES, validateEventInput, type EventFormValues } from '@/lib/event-rules'
+import { MAX_RECURRENCE_INTERVAL, MAX_SERIES_OCCURRENCES, RECURRENCE_FREQUENCIES } from '@/lib/recurrence'
+
+const STEPS: { title: string; fields: (keyof EventFormValues)[] }[] = [
+  { title: 'Basics', fields: ['title', 'overview', 'description', 'image'] },
+  {
+    title: 'When & Where',
+    fields: [
+      'date',
+      'time',
+      'endDate',
+      'endTime',
+      'timezone',
+      'repeat',
+      'repeatInterval',
+      'repeatCount',
+      'repeatUntil',
+      'venue',
+      'location',
+      'latitude',
+      'longitude',
+      'mode',
+      'onlineUrl',
+    ],
+  },
+  { title: 'Program', fields: ['audience', 'capacity', 'organizer', 'agenda', 'tags'] },
+  { title: 'Review', fields: [] },
+]
+
+const initialValues: EventFormValues = {
+  title: '',
+  description: '',
+  overview: '',
+  image: '',
+  venue: '',
+  location: '',
+  latitude: '',
+  longitude: '',
+  date: '',
+  time: '',
+  timezone: '',
+  endDate: '',
+  endTime: '',
+  repeat: '',
+  repeatInterval: '1',
+  repeatCount: '',
+  repeatUntil: '',
+  mode: '',
+  onlineUrl: '',
+  audience: '',
+  agenda: [],
+  organizer: '',
+  tags: [],
+  capacity: '',
+}
+
+interface FieldProps {
+  id: keyof EventFormValues
+  label: string
+  error?: string
+  hint?: string
+  children: ReactNode
+}
+
+const Field = ({ id, label, error, hint, children }: FieldProps) => (
+  <div className="field">
+    <label htmlFor={id}>{label}</label>
+    {children}
+    {hint && !error && <p className="hint">{hint}</p>}
+    {error && <p className="error">{error}</p>}
+  </div>
+)
+
+// Sessions are listed by title, one per line
+const reviewValue = (values: EventFormValues, field: keyof EventFormValues) => {
+  if (field === 'agenda') return values.agenda.map(({ title }) => title).join('\n')
+
+  const value = values[field]
+  return Array.isArray(value) ? value.join(', ') : value
+}
+
+const subscribe = () => () => {}
+const getViewerTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone
+
+// Node and browsers ship different time zone lists, so the full list is only built in the browser
+const NO_TIME_ZONES: string[] = []
+let timeZones: string[] | undefined
+const getTimeZones = () => (timeZones ??= Intl.supportedValuesOf('timeZone'))
+const getServerTimeZones = () => NO_TIME_ZONES
+
+const CreateEventForm = () => {
+  const router = useRouter()
+  const [step, setStep] = useState(0)
+  const [formValues, setValues] = useState<EventFormValues>(initialValues)
+  const [errors, setErrors] = useState<FieldErrors>({})
+  const [formError, setFormError] = useState<string | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+  const viewerTimeZone = useSyncExternalStore(subscribe, getViewerTimeZone, () => 'UTC')
+  const supportedTimeZones = useSyncExternalStore(subscribe, getTimeZones, getServerTimeZones)
+
+  // Default to the organizer's own time zone until they pick one
+  const values = { ...formValues, timezone: formValues.timezone || viewerTimeZone }
+
+  const setValue = <K extends keyof EventFormValues>(field: K, value: EventFormValues[K]) => {
+    setValues((prev) => ({ ...prev, [field]: value }))
+    setErrors((prev) => {
+      const next = { ...prev }
+      delete next[field]
+      return next
+    })
+  }
+
+  // Only report the errors belonging to the given step
+  const stepErrors = (index: number) => {
+    const all = validateEventInput(values)
+    return Object.fromEntries(STEPS[index].fields.filter((f) => all[f]).map((f) => [f, all[f]]))
+  }
+
+  const handleNext = () => {
+    const found = stepErrors(step)
+    setErrors(found)
+    if (Object.keys(found).length === 0) setStep((s) => s + 1)
+  }
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    if (step < STEPS.length - 1) return handleNext()
+
+    const found = validateEventInput(values)
+    if (Object.keys(found).length > 0) {
+      setErrors(found)
+      setStep(STEPS.findIndex(({ fields }) => fields.some((f) => found[f])))
+      return
+    }
+
+    setSubmitting(true)
+    setFormError(null)
+
+    try {
+      const result = await createEvent(values)
+
+      if (result.success) {
+        router.push(`/events/${result.slug}`)
+        return
+      }
+
+      setErrors(result.errors)
+      setFormError(result.message)
+
+      // Jump back to the first step with a server-side field error
+      const errorStep = STEPS.findIndex(({ fields }) => fields.some((f) => result.errors[f]))
+      if (errorStep !== -1) setStep(errorStep)
+    } catch {
+      setFormError('Something went wrong, please try again')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <form id="create-event" onSubmit={handleSubmit} noValidate>
+      <ol className="steps">
+        {STEPS.map(({ title }, index) => (
+          <li key={title} className={index === step ? 'active' : index < step ? 'done' : undefined}>
+            {index + 1}. {title}
+          </li>
+        ))}
+      </ol>
+
+      {step === 0 && (
+        <>
+          <Field id="title" label="Title" error={errors.title}>
+            <input
+              id="title"
+              value={values.title}
+              maxLength={EVENT_MAX_LENGTHS.title}
+              onChange={(e) => setValue('title', e.target.value)}
+            />
+          </Field>
+          <Field
+            id="overview"
+            label="Overview"
+            error={errors.overview}
+            hint={`${values.overview.length}/${EVENT_MAX_LENGTHS.overview}`}
+          >
+            <textarea
+              id="overview"
+              rows={3}
+              value={values.overview}
+              maxLength={EVENT_MAX_LENGTHS.overview}
+              onChange={(e) => setValue('overview', e.target.value)}
+            />
+          </Field>
+          <Field
+            id="description"
+            label="Description"
+            error={errors.description}
+            hint={`${values.description.length}/${EVENT_MAX_LENGTHS.description}`}
+          >
+            <textarea
+              id="description"
+              rows={6}
+              value={values.description}
+              maxLength={EVENT_MAX_LENGTHS.description}
+              onChange={(e) => setValue('description', e.target.value)}
+            />
+          </Field>
+          <Field id="image" label="Poster" error={errors.image} hint="Upload an image, or paste the URL of one">
+            <PosterUpload image={values.image} onChange={(image) => setValue('image', image)} />
+            <input
+              id="image"
+              type="url"
+              value={values.image}
+              placeholder="https://"
+              onChange={(e) => setValue('image', e.target.value)}
+            />
+          </Field>
+        </>
+      )}
+
+      {step === 1 && (
+        <>
+          <Field id="date" label="Date" error={errors.date}>
+            <input id="date" type="date" value={values.date} onChange={(e) => setValue('date', e.target.value)} />
+          </Field>
+          <Field id="time" label="Start Time" error={errors.time}>
+            <input id="time" type="time" value={values.time} onChange={(e) => setValue('time', e.target.value)} />
+          </Field>
+          <Field id="endDate" label="End Date" error={errors.endDate} hint="Optional, for multi-day events">
+            <input
+              id="endDate"
+              type="date"
+              value={values.endDate}
+              min={values.date}
+              onChange={(e) => setValue('endDate', e.target.value)}
+            />
+          </Field>
+          <Field id="endTime" label="End Time" error={errors.endTime} hint="Optional">
+            <input
+              id="endTime"
+              type="time"
+              value={values.endTime}
+              onChange={(e) => setValue('endTime', e.target.value)}
+            />
+          </Field>
+          <Field id="timezone" label="Time Zone" error={errors.timezone}>
+            <select id="timezone" value={values.timezone} onChange={(e) => setValue('timezone', e.target.value)}>
+              {[...new Set([values.timezone, 'UTC', ...supportedTimeZones])].map((timeZone) => (
+                <option key={timeZone} value={timeZone}>
+                  {timeZone}
+                </option>
+              ))}
+            </select>
+          </Field>
+          <Field id="repeat" label="Repeats" error={errors.repeat}>
+            <select id="repeat" value={values.repeat} onChange={(e) => setValue('repeat', e.target.value)}>
+              <option value="">Does not repeat</option>
+              {RECURRENCE_FREQUENCIES.map((frequency) => (
+                <option key={frequency} value={frequency}>
+                  {frequency}
+                </option>
+              ))}
+            </select>
+          </Field>
+          {values.repeat && (
+            <>
+              <Field
+                id="repeatInterval"
+                label="Every"
+                error={errors.repeatInterval}
+                hint={values.repeat === 'weekly' ? 'Weeks between dates' : 'Months between dates'}
+              >
+                <input
+                  id="repeatInterval"
+                  type="number"
+                  min={1}
+                  max={MAX_RECURRENCE_INTERVAL}
+                  step={1}
+                  value={values.repeatInterval}
+                  onChange={(e) => setValue('repeatInterval', e.target.value)}
+                />
+              </Field>
+              <Field
+                id="repeatCount"
+                label="Number of Dates"
+                error={errors.repeatCount}
+                hint="Optional, leave this and the last date empty to repeat until you end the series"
+              >
+                <input
+                  id="repeatCount"
+                  type="number"
+                  min={2}
+                  max={MAX_SERIES_OCCURRENCES}
+                  step={1}
+                  value={values.repeatCount}
+                  disabled={Boolean(values.repeatUntil)}
+                  onChange={(e) => setValue('repeatCount', e.target.value)}
+                />
+              </Field>
+              <Field id="repeatUntil" label="Last Date" error={errors.repeatUntil} hint="Optional">
+                <input
+                  id="repeatUntil"
+                  type="date"
+                  min={values.date}
+                  value={values.repeatUntil}
+                  disabled={Boolean(values.repeatCount)}
+                  onChange={(e) => setValue('repeatUntil', e.target.value)}
+                />
+              </Field>
+            </>
+          )}
+          <Field id="venue" label="Venue" error={errors.venue}>
+            <input id="venue" value={values.venue} onChange={(e) => setValue('venue', e.target.value)} />
+          </Field>
+          <Field id="location" label="Location" error={errors.location}>
+            <input
+              id="location"
+              value={values.location}
+              placeholder="City, Country or Online"
+              onChange={(e) => setValue('location', e.target.value)}
+            />
+          </Field>
+          <Field id="latitude" label="Latitude" error={errors.latitude} hint="Optional, shows the venue on a map">
+            <input
+              id="latitude"
+              type="number"
+              step="any"
+              min={-90}
+              max={90}
+              value={values.latitude}
+              onChange={(e) => setValue('latitude', e.target.value)}
+            />
+          </Field>
+          <Field id="longitude" label="Longitude" error={errors.longitude}>
+            <input
+              id="longitude"
+              type="number"
+              step="any"
+              min={-180}
+              max={180}
+              value={values.longitude}
+              onChange={(e) => setValue('longitude', e.target.value)}
+            />
+          </Field>
+          <Field id="mode" label="Mode" error={errors.mode}>
+            <select id="mode" value={values.mode} onChange={(e) => setValue('mode', e.target.value)}>
+              <option value="">Select a mode</option>
+              {EVENT_MODES.map((mode) => (
+                <option key={mode} value={mode}>
+                  {mode}
+                </option>
+              ))}
+            </select>
+          </Field>
+          {values.mode && values.mode !== 'offline' && (
+            <Field
+              id="onlineUrl"
+              label="Online URL"
+              error={errors.onlineUrl}
+              hint="Optional, only shared with attendees"
+            >
+              <input
+                id="onlineUrl"
+                type="url"
+                value={values.onlineUrl}
+                placeholder="https://"
+                onChange={(e) => setValue('onlineUrl', e.target.value)}
+              />
+            </Field>
+          )}
+        </>
+      )}
+
+      {step === 2 && (
+        <>
+          <Field id="audience" label="Audience" error={errors.audience}>
+            <input id="audience" value={values.audience} onChange={(e) => setValue('audience', e.target.value)} />
+          </Field>
+          <Field id="capacity" label="Capacity" error={errors.capacity} hint="Optional, leave empty for unlimited spots">
+            <input
+              id="capacity"
+              type="number"
+              min={1}
+              step={1}
+              value={values.capacity}
+              onChange={(e) => setValue('capacity', e.target.value)}
+            />
+          </Field>
+          <Field id="organizer" label="Organizer" error={errors.organizer}>
+            <textarea
+              id="organizer"
+              rows={3}
+              value={values.organizer}
+              onChange={(e) => setValue('organizer', e.target.value)}
+            />
+          </Field>
+          <Field id="agenda" label="Agenda" error={errors.agenda}>
+            <AgendaEditor
+              sessions={values.agenda}
+              onChange={(agenda) => setValue('agenda', agenda)}
+              date={values.date}
+              endDate={values.endDate}
+            />
+          </Field>
+          <Field id="tags" label="Tags" error={errors.tags} hint="Press Enter or comma to add a tag">
+            <TagInput tags={values.tags} onChange={(tags) => setValue('tags', tags)} />
+          </Field>
+        </>
+      )}
+
+      {step === 3 && (
+        <dl className="review">
+          {STEPS.slice(0, -1)
+            .flatMap(({ fields }) => fields)
+            .map((field) => (
+              <div key={field}>
+                <dt>{field}</dt>
+                <dd>{reviewValue(values, field)}</dd>
+              </div>
+            ))}
+        </dl>
+      )}
+
+      {formError && <p className="error">{formError}</p>}
+
+      <div className="actions">
+        {step > 0 && (
+          <button type="button" className="secondary" onClick={() => setStep((s) => s - 1)}>
+            Back
+          </button>
+        )}
+        {step < STEPS.length - 1 ? (
+          <button type="button" onClick={handleNext}>
+            Next
+          </button>
+        ) : (
+          <button type="submit" disabled={submitting}>
+            {submitting ? 'Creating...' : 'Create Event'}
+          </button>
+        )}
+      </div>
+    </form>
+  )
+}
+export default CreateEventForm
@@ -0,0 +1,49 @@
+'use client'
+
+import { FormEvent, useState } from 'react'
+
+import { requestDataDeletionLink, type PrivacyActionResult } from '@/lib/actions/privacy.actions'
+
+const DataDeletionForm = () => {
+  const [email, setEmail] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [result, setResult] = useState<PrivacyActionResult | null>(null)
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setSubmitting(true)
+    setResult(null)
+
+    try {
+      setResult(await requestDataDeletionLink(email))
+    } catch {
+      setResult({ success: false, message: 'Something went wrong, please try again' })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (result?.success) {
+    return <p className="text-sm">{result.message}</p>
+  }
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <label htmlFor="deletion-email">Email Address</label>
+      <input
+        type="email"
+        id="deletion-email"
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        placeholder="The email you booked with"
+        required
+      />
+      {result && !result.success && <p className="error">{result.errors?.email ?? result.message}</p>}
+
+      <button type="submit" disabled={submitting}>
+        {submitting ? 'Sending...' : 'Email me a confirmation link'}
+      </button>
+    </form>
+  )
+}
+export default DataDeletionForm
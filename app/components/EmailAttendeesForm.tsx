@@ -0,0 +1,68 @@
+'use client'
+
+import { FormEvent, useState } from 'react'
+
+import { emailEventAttendees, type DashboardActionResult } from '@/lib/actions/dashboard.actions'
+
+const EmailAttendeesForm = ({ slug }: { slug: string }) => {
+  const [subject, setSubject] = useState('')
+  const [message, setMessage] = useState('')
+  const [includeWaitlist, setIncludeWaitlist] = useState(false)
+  // Identifies this message, so a double submit or a retry after a timeout doesn't email attendees twice
+  const [requestId, setRequestId] = useState(() => crypto.randomUUID())
+  const [pending, setPending] = useState(false)
+  const [result, setResult] = useState<DashboardActionResult | null>(null)
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setPending(true)
+    setResult(null)
+
+    try {
+      const outcome = await emailEventAttendees(slug, { requestId, subject, message, includeWaitlist })
+      setResult(outcome)
+
+      if (outcome.success) {
+        setSubject('')
+        setMessage('')
+        setRequestId(crypto.randomUUID())
+      }
+    } catch {
+      setResult({ success: false, message: 'Something went wrong, please try again' })
+    } finally {
+      setPending(false)
+    }
+  }
+
+  const errors = result && !result.success ? (result.errors ?? {}) : {}
+
+  return (
+    <form className="email-attendees" onSubmit={handleSubmit}>
+      <label htmlFor="subject">Subject</label>
+      <input id="subject" value={subject} maxLength={200} onChange={(e) => setSubject(e.target.value)} required />
+      {errors.subject && <p className="error">{errors.subject}</p>}
+
+      <label htmlFor="message">Message</label>
+      <textarea
+        id="message"
+        rows={6}
+        value={message}
+        maxLength={5000}
+        onChange={(e) => setMessage(e.target.value)}
+        required
+      />
+      {errors.message && <p className="error">{errors.message}</p>}
+
+      <label className="checkbox">
+        <input type="checkbox" checked={includeWaitlist} onChange={(e) => setIncludeWaitlist(e.target.checked)} />
+        Include people on the waitlist
+      </label>
+
+      <button type="submit" disabled={pending}>
+        {pending ? 'Sending...' : 'Send to attendees'}
+      </button>
+      {result && <p className={result.success ? 'text-sm' : 'error'}>{result.message}</p>}
+    </form>
+  )
+}
+export default EmailAttendeesForm
@@ -1,25 +1,55 @@
+'use client'
+
 import Image from 'next/image'
 import Link from 'next/link'
 
-interface Props {
-  title: string
-  image: string
-  slug: string
-  location: string
-  date: string
-  time: string
+import LocalTime from './LocalTime'
+import PosterImage from './PosterImage'
+import { track, type ClientAnalyticsEvents } from '@/lib/analytics/client'
+import type { EventItem } from '@/lib/constants'
+import { formatEventDates, formatEventTime } from '@/lib/timezone'
+
+interface Props extends EventItem {
+  position: number // 1-based place of the card in the list it's shown in
+  list: ClientAnalyticsEvents['event_card_clicked']['list']
 }
 
-const EventCard = ({ title, image, slug, location, date, time }: Props) => {
+const EventCard = ({
+  title,
+  image,
+  slug,
+  location,
+  timezone,
+  startsAt,
+  endsAt,
+  capacity,
+  bookedCount,
+  recurring,
+  position,
+  list,
+}: Props) => {
+  const spotsLeft = capacity ? Math.max(capacity - bookedCount, 0) : null
+
   return (
-    <Link href={`/events/${slug}`} id="event-card">
-      <Image
-        src={image}
-        alt="title"
-        width={410}
-        height={300}
-        className="poster"
-      />
+    <Link
+      href={`/events/${slug}`}
+      id="event-card"
+      onClick={() => track('event_card_clicked', { slug, position, list })}
+    >
+      <div className="relative">
+        <PosterImage
+          src={image}
+          alt="title"
+          width={410}
+          height={300}
+          className="poster"
+        />
+        {spotsLeft !== null && (
+          <span className={`badge ${spotsLeft === 0 ? 'sold-out' : ''}`}>
+            {spotsLeft === 0 ? 'Sold out' : `${spotsLeft} ${spotsLeft === 1 ? 'spot' : 'spots'} left`}
+          </span>
+        )}
+      </div>
 
       <div className="flex flex-row gap-2">
         <Image src="/icons/pin.svg" alt="pin" width={14} height={14} />
@@ -31,13 +61,18 @@ const EventCard = ({ title, image, slug, location, date, time }: Props) => {
       <div className="datetime">
         <div>
           <Image src="/icons/calendar.svg" alt="pin" width={14} height={14} />
-          <p>{date}</p>
+          <p>
+            {recurring && 'Next: '}
+            {formatEventDates(new Date(startsAt), new Date(endsAt), timezone)}
+          </p>
         </div>
         <div>
           <Image src="/icons/clock.svg" alt="pin" width={14} height={14} />
-          <p>{time}</p>
+          <p>{formatEventTime(new Date(startsAt), timezone)}</p>
         </div>
       </div>
+
+      <LocalTime startsAt={startsAt} timezone={timezone} />
     </Link>
   )
 }
@@ -0,0 +1,191 @@
+'use client'
+
+import { FormEvent, useState } from 'react'
+import { useRouter } from 'next/navigation'
+
+import TagInput from './TagInput'
+import { track } from '@/lib/analytics/client'
+import { EVENT_MODES } from '@/lib/event-rules'
+import { DEFAULT_NEAR_RADIUS_KM, MAX_NEAR_RADIUS_KM } from '@/lib/geo'
+
+export interface EventFilterValues {
+  q: string
+  mode: string
+  tags: string[]
+  location: string
+  from: string
+  to: string
+  lat: string
+  lng: string
+  radius: string // km around lat/lng
+}
+
+const emptyValues: EventFilterValues = {
+  q: '',
+  mode: '',
+  tags: [],
+  location: '',
+  from: '',
+  to: '',
+  lat: '',
+  lng: '',
+  radius: String(DEFAULT_NEAR_RADIUS_KM),
+}
+
+const RADIUS_OPTIONS = [10, 25, DEFAULT_NEAR_RADIUS_KM, 100, 250, MAX_NEAR_RADIUS_KM]
+
+interface Props {
+  initialValues: EventFilterValues
+}
+
+const EventFilters = ({ initialValues }: Props) => {
+  const router = useRouter()
+  const [values, setValues] = useState(initialValues)
+  const [locating, setLocating] = useState(false)
+  const [geoError, setGeoError] = useState<string | null>(null)
+
+  const setValue = <K extends keyof EventFilterValues>(field: K, value: EventFilterValues[K]) => {
+    setValues((prev) => ({ ...prev, [field]: value }))
+  }
+
+  // Keep the filters in the URL so filtered views can be shared, starting again from the first page
+  const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+
+    const query = new URLSearchParams()
+    for (const key of ['q', 'mode', 'location', 'from', 'to'] as const) {
+      const value = values[key].trim()
+      if (value) query.set(key, value)
+    }
+    values.tags.forEach((tag) => query.append('tag', tag))
+    if (values.lat && values.lng) {
+      query.set('lat', values.lat)
+      query.set('lng', values.lng)
+      query.set('radius', values.radius)
+    }
+
+    track('events_searched', {
+      q: query.get('q'),
+      mode: query.get('mode'),
+      tags: values.tags,
+      location: query.get('location'),
+      from: query.get('from'),
+      to: query.get('to'),
+      near: query.has('lat'),
+    })
+
+    const qs = query.toString()
+    router.push(qs ? `/events?${qs}` : '/events')
+  }
+
+  const handleReset = () => {
+    setValues(emptyValues)
+    setGeoError(null)
+    track('events_search_reset', {})
+    router.push('/events')
+  }
+
+  // Coordinates are rounded to ~1 km, so shared search URLs don't reveal where someone is
+  const handleNearMe = () => {
+    if (!navigator.geolocation) {
+      setGeoError('Your browser cannot share its location')
+      return
+    }
+
+    setLocating(true)
+    setGeoError(null)
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => {
+        setValues((prev) => ({ ...prev, lat: coords.latitude.toFixed(2), lng: coords.longitude.toFixed(2) }))
+        setLocating(false)
+      },
+      () => {
+        setGeoError('Could not get your location')
+        setLocating(false)
+      },
+      { maximumAge: 10 * 60000, timeout: 10000 }
+    )
+  }
+
+  return (
+    <form id="event-filters" onSubmit={handleSubmit}>
+      <input
+        type="search"
+        aria-label="Search events"
+        placeholder="Search events..."
+        value={values.q}
+        onChange={(e) => setValue('q', e.target.value)}
+        className="search"
+      />
+
+      <div className="filters">
+        <select aria-label="Mode" value={values.mode} onChange={(e) => setValue('mode', e.target.value)}>
+          <option value="">Any mode</option>
+          {EVENT_MODES.map((mode) => (
+            <option key={mode} value={mode}>
+              {mode}
+            </option>
+          ))}
+        </select>
+        <input
+          aria-label="Location"
+          placeholder="Location"
+          value={values.location}
+          onChange={(e) => setValue('location', e.target.value)}
+        />
+        <label>
+          From
+          <input type="date" value={values.from} onChange={(e) => setValue('from', e.target.value)} />
+        </label>
+        <label>
+          To
+          <input type="date" value={values.to} onChange={(e) => setValue('to', e.target.value)} />
+        </label>
+      </div>
+
+      <div className="near">
+        {values.lat && values.lng ? (
+          <>
+            <label>
+              Within
+              <select value={values.radius} onChange={(e) => setValue('radius', e.target.value)}>
+                {[...new Set([Number(values.radius), ...RADIUS_OPTIONS])]
+                  .sort((a, b) => a - b)
+                  .map((radius) => (
+                    <option key={radius} value={radius}>
+                      {radius} km
+                    </option>
+                  ))}
+              </select>
+            </label>
+            <span>
+              of {values.lat}, {values.lng}
+            </span>
+            <button
+              type="button"
+              className="secondary"
+              onClick={() => setValues((prev) => ({ ...prev, lat: '', lng: '' }))}
+            >
+              Clear
+            </button>
+          </>
+        ) : (
+          <button type="button" className="secondary" onClick={handleNearMe} disabled={locating}>
+            {locating ? 'Locating...' : 'Near me'}
+          </button>
+        )}
+        {geoError && <p className="error">{geoError}</p>}
+      </div>
+
+      <TagInput tags={values.tags} onChange={(tags) => setValue('tags', tags)} />
+
+      <div className="actions">
+        <button type="submit">Search</button>
+        <button type="button" className="secondary" onClick={handleReset}>
+          Reset
+        </button>
+      </div>
+    </form>
+  )
+}
+export default EventFilters
@@ -0,0 +1,57 @@
+import { getMapLink, getStaticMapTiles, getTileProvider, TILE_SIZE } from '@/lib/maps'
+import type { GeoPoint } from '@/lib/geo'
+
+interface Props {
+  geo: GeoPoint
+  label: string // Venue and location, for the map's accessible name
+}
+
+const MAP_WIDTH = 800
+const MAP_HEIGHT = 300
+const MAP_ZOOM = 15
+
+// Static map of an event's venue, falls back to the coordinates when map tiles are disabled
+const EventMap = ({ geo, label }: Props) => {
+  const [longitude, latitude] = geo.coordinates
+  const provider = getTileProvider()
+  const tiles = provider
+    ? getStaticMapTiles(provider, latitude, longitude, { width: MAP_WIDTH, height: MAP_HEIGHT, zoom: MAP_ZOOM })
+    : []
+
+  return (
+    <section id="event-map">
+      <h2>Location</h2>
+
+      {provider ? (
+        <div className="map" role="img" aria-label={`Map of ${label}`}>
+          {tiles.map((tile) => (
+            <div
+              key={`${tile.left}:${tile.top}`}
+              className="tile"
+              style={{
+                left: `calc(50% + ${tile.left}px)`,
+                top: `calc(50% + ${tile.top}px)`,
+                width: TILE_SIZE,
+                height: TILE_SIZE,
+                backgroundImage: `url("${tile.url}")`,
+              }}
+            />
+          ))}
+          <span className="marker" aria-hidden />
+        </div>
+      ) : (
+        <p className="coordinates">
+          {latitude.toFixed(5)}, {longitude.toFixed(5)}
+        </p>
+      )}
+
+      <div className="footer">
+        {provider?.attribution && <p className="attribution">{provider.attribution}</p>}
+        <a href={getMapLink(latitude, longitude)} target="_blank" rel="noopener noreferrer">
+          Open in map
+        </a>
+      </div>
+    </section>
+  )
+}
+export default EventMap
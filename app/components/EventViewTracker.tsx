@@ -0,0 +1,13 @@
+'use client'
+
+import { useEffect } from 'react'
+
+// Reports a view of a cached event page, renders nothing
+const EventViewTracker = ({ slug }: { slug: string }) => {
+  useEffect(() => {
+    navigator.sendBeacon(`/api/events/${slug}/views`)
+  }, [slug])
+
+  return null
+}
+export default EventViewTracker
@@ -1,13 +1,15 @@
 'use client'
 import Image from "next/image"
 
+import { track } from "@/lib/analytics/client"
+
 const ExploreBtn = () => {
   return (
     <button 
         type="button" 
         id="explore-btn" 
         className="mt-7 mx-auto"
-        onClick={() => console.log('CLICK')}
+        onClick={() => track('explore_clicked', {})}
         >
       <a href="#events">
         Explore Events
@@ -0,0 +1,26 @@
+'use client'
+
+import { useSyncExternalStore } from 'react'
+
+import { formatEventDateTime } from '@/lib/timezone'
+
+interface Props {
+  startsAt: string
+  timezone: string
+}
+
+const subscribe = () => () => {}
+const getViewerTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone
+
+// Start time in the viewer's time zone, only shown in the browser and when it differs from the event's
+const LocalTime = ({ startsAt, timezone }: Props) => {
+  const viewerTimeZone = useSyncExternalStore(subscribe, getViewerTimeZone, () => null)
+  if (!viewerTimeZone) return null
+
+  const start = new Date(startsAt)
+  const viewerTime = formatEventDateTime(start, viewerTimeZone)
+  if (viewerTime === formatEventDateTime(start, timezone)) return null
+
+  return <p className="local-time">{viewerTime} your time</p>
+}
+export default LocalTime
@@ -0,0 +1,76 @@
+'use client'
+
+import { FormEvent, useState } from 'react'
+import { useRouter } from 'next/navigation'
+
+import { cancelBookingByToken, transferBookingByToken, type ManageBookingResult } from '@/lib/actions/booking.actions'
+
+interface Props {
+  token: string
+  email: string
+}
+
+const ManageBooking = ({ token, email }: Props) => {
+  const router = useRouter()
+  const [newEmail, setNewEmail] = useState('')
+  const [pending, setPending] = useState(false)
+  const [result, setResult] = useState<ManageBookingResult | null>(null)
+
+  const run = async (action: () => Promise<ManageBookingResult>) => {
+    setPending(true)
+    setResult(null)
+
+    try {
+      const outcome = await action()
+      setResult(outcome)
+      // Show the new status, or the expired link message after a transfer
+      if (outcome.success) router.refresh()
+    } catch {
+      setResult({ success: false, message: 'Something went wrong, please try again' })
+    } finally {
+      setPending(false)
+    }
+  }
+
+  const handleCancel = () => {
+    if (!window.confirm('Cancel your booking? Your spot will go to the next person on the waitlist.')) return
+    run(() => cancelBookingByToken(token))
+  }
+
+  const handleTransfer = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    if (!window.confirm(`Transfer your booking to ${newEmail}? This link will stop working for ${email}.`)) return
+    run(() => transferBookingByToken(token, newEmail))
+  }
+
+  if (result?.success) {
+    return <p className="text-sm">{result.message}</p>
+  }
+
+  return (
+    <div className="actions">
+      <form onSubmit={handleTransfer}>
+        <label htmlFor="new-email">Transfer to someone else</label>
+        <input
+          type="email"
+          id="new-email"
+          value={newEmail}
+          onChange={(e) => setNewEmail(e.target.value)}
+          placeholder="Their email address"
+          required
+        />
+        {result?.errors?.email && <p className="error">{result.errors.email}</p>}
+        <button type="submit" disabled={pending}>
+          Transfer Booking
+        </button>
+      </form>
+
+      <button type="button" className="cancel" onClick={handleCancel} disabled={pending}>
+        Cancel Booking
+      </button>
+
+      {result && !result.errors?.email && <p className="error">{result.message}</p>}
+    </div>
+  )
+}
+export default ManageBooking
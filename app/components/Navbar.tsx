@@ -1,7 +1,34 @@
+'use client'
+
+import { useEffect, useState } from "react"
 import Image from "next/image"
 import Link from "next/link"
+import { useRouter } from "next/navigation"
+
+import { signOut } from "@/lib/actions/auth.actions"
+import type { SessionUser } from "@/lib/auth"
+
+// Loaded in the browser so pages can stay statically rendered
+type SessionState = SessionUser | null | undefined
 
 const Navbar = () => {
+  const router = useRouter()
+  const [user, setUser] = useState<SessionState>(undefined)
+
+  useEffect(() => {
+    fetch("/api/auth/session")
+      .then((res) => res.json())
+      .then((data) => setUser(data.user ?? null))
+      .catch(() => setUser(null))
+  }, [])
+
+  const handleSignOut = async () => {
+    await signOut()
+    setUser(null)
+    router.push("/")
+    router.refresh()
+  }
+
   return (
     <header>
         <nav>
@@ -12,11 +39,18 @@ const Navbar = () => {
 
             <ul>
                 <Link href="/">Home</Link>
-                <Link href="/">Events</Link>
-                <Link href="/">Create Event</Link>
+                <Link href="/events">Events</Link>
+                {user && <Link href="/events/create">Create Event</Link>}
+                {user && <Link href="/dashboard">Dashboard</Link>}
+                {user === null && <Link href="/sign-in">Sign in</Link>}
+                {user && (
+                    <button type="button" className="sign-out" onClick={handleSignOut} title={user.email}>
+                        Sign out
+                    </button>
+                )}
             </ul>
         </nav>
     </header>
   )
 }
-export default Navbar
\ No newline at end of file
+export default Navbar
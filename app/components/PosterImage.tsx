@@ -0,0 +1,22 @@
+'use client'
+
+import Image, { type ImageProps } from 'next/image'
+
+import { isUploadedPoster, posterLoader } from '@/lib/posters'
+
+// next/image that serves uploaded posters from their pre-generated sizes instead of resizing them again
+// Images linked from other sites are shown as they are, next/image only optimizes hosts in its remotePatterns
+const PosterImage = ({ src, alt, ...props }: ImageProps & { src: string }) => {
+  const uploaded = isUploadedPoster(src)
+
+  return (
+    <Image
+      src={src}
+      alt={alt}
+      loader={uploaded ? posterLoader : undefined}
+      unoptimized={!uploaded && !src.startsWith('/')}
+      {...props}
+    />
+  )
+}
+export default PosterImage
@@ -0,0 +1,67 @@
+'use client'
+
+import { ChangeEvent, useState } from 'react'
+
+import PosterImage from './PosterImage'
+import { POSTER_MAX_BYTES, POSTER_MIME_TYPES, type PosterMimeType } from '@/lib/posters'
+
+interface Props {
+  image: string
+  onChange: (image: string) => void
+}
+
+// Uploads a poster as soon as it's picked, the form then saves the returned URL like a pasted one
+const PosterUpload = ({ image, onChange }: Props) => {
+  const [uploading, setUploading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    // Checked again on the server, this only saves uploading files that would be rejected
+    if (!POSTER_MIME_TYPES.includes(file.type as PosterMimeType)) {
+      setError('Please choose a JPEG, PNG, WebP or AVIF image')
+      return
+    }
+    if (file.size > POSTER_MAX_BYTES) {
+      setError(`Poster cannot exceed ${POSTER_MAX_BYTES / 1024 / 1024} MB`)
+      return
+    }
+
+    setUploading(true)
+    setError(null)
+
+    try {
+      const body = new FormData()
+      body.append('file', file)
+
+      const res = await fetch('/api/uploads/posters', { method: 'POST', body })
+      const data = await res.json()
+
+      if (!res.ok) {
+        setError(data.errors?.image ?? data.message)
+        return
+      }
+
+      onChange(data.poster.url)
+    } catch {
+      setError('Something went wrong, please try again')
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  return (
+    <div className="poster-upload">
+      {image && <PosterImage src={image} alt="Poster preview" width={410} height={300} className="preview" />}
+      <label className="upload">
+        {uploading ? 'Uploading...' : image ? 'Replace poster' : 'Upload a poster'}
+        <input type="file" accept={POSTER_MIME_TYPES.join(',')} onChange={handleFile} disabled={uploading} hidden />
+      </label>
+      {error && <p className="error">{error}</p>}
+    </div>
+  )
+}
+export default PosterUpload
@@ -0,0 +1,33 @@
+'use client'
+
+import { useSyncExternalStore } from 'react'
+
+import { setAnalyticsConsent } from '@/lib/analytics/client'
+import { readConsent, subscribeToConsent } from '@/lib/consent'
+
+const PrivacySettings = () => {
+  const consent = useSyncExternalStore(subscribeToConsent, readConsent, () => undefined)
+  if (consent === undefined) return null
+
+  return (
+    <div className="settings">
+      <p>
+        {consent === 'granted'
+          ? 'You allowed analytics cookies.'
+          : consent === 'denied'
+            ? 'You declined analytics cookies.'
+            : "You haven't chosen yet, so no analytics are collected."}
+      </p>
+      {consent === 'granted' ? (
+        <button type="button" className="secondary" onClick={() => setAnalyticsConsent('denied')}>
+          Revoke consent
+        </button>
+      ) : (
+        <button type="button" onClick={() => setAnalyticsConsent('granted')}>
+          Allow analytics
+        </button>
+      )}
+    </div>
+  )
+}
+export default PrivacySettings
@@ -0,0 +1,30 @@
+import Link from 'next/link'
+
+import type { EventItem } from '@/lib/constants'
+import { formatEventDates, formatEventTime } from '@/lib/timezone'
+
+interface Props {
+  slug: string // Occurrence the page is showing
+  recurrence: string // e.g. "Every 2 weeks"
+  events: EventItem[]
+}
+
+// Upcoming dates of a recurring event, each booked separately
+const SeriesDates = ({ slug, recurrence, events }: Props) => (
+  <section id="series-dates">
+    <h2>More Dates</h2>
+    <p className="recurrence">{recurrence}</p>
+
+    <ul>
+      {events.map((event) => (
+        <li key={event.slug} className={event.slug === slug ? 'current' : undefined}>
+          <Link href={`/events/${event.slug}`} aria-current={event.slug === slug ? 'page' : undefined}>
+            {formatEventDates(new Date(event.startsAt), new Date(event.endsAt), event.timezone)},{' '}
+            {formatEventTime(new Date(event.startsAt), event.timezone)}
+          </Link>
+        </li>
+      ))}
+    </ul>
+  </section>
+)
+export default SeriesDates
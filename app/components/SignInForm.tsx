@@ -0,0 +1,57 @@
+'use client'
+
+import { FormEvent, useState } from 'react'
+
+import { requestSignIn } from '@/lib/actions/auth.actions'
+
+const SignInForm = ({ next }: { next: string }) => {
+  const [email, setEmail] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [sent, setSent] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setSubmitting(true)
+    setError(null)
+
+    try {
+      const result = await requestSignIn(email, next)
+
+      if (!result.success) {
+        setError(result.errors?.email ?? result.message)
+        return
+      }
+
+      setSent(true)
+    } catch {
+      setError('Something went wrong, please try again')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (sent) {
+    return <p className="text-sm">Check your inbox, we sent a sign-in link to {email}.</p>
+  }
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <label htmlFor="email">Email Address</label>
+      <input
+        type="email"
+        id="email"
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        placeholder="Enter your email address"
+        required
+      />
+      {error && <p className="error">{error}</p>}
+
+      <button type="submit" disabled={submitting}>
+        {submitting ? 'Sending...' : 'Email me a link'}
+      </button>
+    </form>
+  )
+}
+export default SignInForm
@@ -0,0 +1,21 @@
+import EventCard from './EventCard'
+import type { EventItem } from '@/lib/constants'
+
+const SimilarEvents = ({ events }: { events: EventItem[] }) => {
+  if (events.length === 0) return null
+
+  return (
+    <section id="similar-events">
+      <h2>Similar Events</h2>
+
+      <ul className="events list-none">
+        {events.map((event, index) => (
+          <li key={event.slug}>
+            <EventCard {...event} position={index + 1} list="similar" />
+          </li>
+        ))}
+      </ul>
+    </section>
+  )
+}
+export default SimilarEvents
@@ -0,0 +1,55 @@
+'use client'
+
+import { KeyboardEvent, useState } from 'react'
+
+interface Props {
+  tags: string[]
+  onChange: (tags: string[]) => void
+}
+
+const TagInput = ({ tags, onChange }: Props) => {
+  const [draft, setDraft] = useState('')
+
+  const addTag = () => {
+    const tag = draft.trim().toLowerCase()
+    setDraft('')
+
+    if (!tag || tags.includes(tag)) return
+    onChange([...tags, tag])
+  }
+
+  const removeTag = (tag: string) => {
+    onChange(tags.filter((t) => t !== tag))
+  }
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault()
+      addTag()
+    } else if (e.key === 'Backspace' && !draft && tags.length > 0) {
+      removeTag(tags[tags.length - 1])
+    }
+  }
+
+  return (
+    <div className="tag-input">
+      {tags.map((tag) => (
+        <span className="pill" key={tag}>
+          {tag}
+          <button type="button" onClick={() => removeTag(tag)} aria-label={`Remove ${tag}`}>
+            ✕
+          </button>
+        </span>
+      ))}
+      <input
+        id="tags"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={addTag}
+        placeholder={tags.length === 0 ? 'react, nextjs, conference' : ''}
+      />
+    </div>
+  )
+}
+export default TagInput
@@ -0,0 +1,147 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { notFound, redirect } from 'next/navigation'
+
+import AttendeeTable from '@/app/components/AttendeeTable'
+import EmailAttendeesForm from '@/app/components/EmailAttendeesForm'
+import { canManageEvent, getCurrentUser } from '@/lib/auth'
+import {
+  ATTENDEE_FILTERS,
+  attendeeStatus,
+  getAttendees,
+  getBookingStats,
+  getBookingTimeline,
+  type AttendeeFilter,
+  type BookingTimelineDay,
+} from '@/lib/dashboard'
+import { getEventBySlug } from '@/lib/events'
+
+export const metadata: Metadata = {
+  title: 'Event bookings | DevEvent',
+}
+
+interface Props {
+  params: Promise<{ slug: string }>
+  searchParams: Promise<{ status?: string; cursor?: string }>
+}
+
+const BookingTimeline = ({ days }: { days: BookingTimelineDay[] }) => {
+  const max = Math.max(...days.map(({ total }) => total), 1)
+
+  return (
+    <ol className="timeline">
+      {days.map(({ day, booked, cancelled, total }) => (
+        <li key={day}>
+          <span className="day">{day}</span>
+          <span className="bar" style={{ width: `${(Math.max(total, 0) / max) * 100}%` }} />
+          <span className="count">
+            {total} <small>(+{booked}{cancelled > 0 ? ` / −${cancelled}` : ''})</small>
+          </span>
+        </li>
+      ))}
+    </ol>
+  )
+}
+
+const DashboardEventPage = async ({ params, searchParams }: Props) => {
+  const { slug } = await params
+  const { status, cursor } = await searchParams
+
+  const user = await getCurrentUser()
+  if (!user) redirect(`/sign-in?next=/dashboard/events/${slug}`)
+
+  const event = await getEventBySlug(slug)
+  if (!event || !canManageEvent(user, event)) notFound()
+
+  const filter: AttendeeFilter = ATTENDEE_FILTERS.includes(status as AttendeeFilter) ? (status as AttendeeFilter) : 'all'
+
+  const [stats, timeline, { attendees, nextCursor }] = await Promise.all([
+    getBookingStats([event._id]),
+    getBookingTimeline(event),
+    getAttendees(event._id, { filter, cursor }),
+  ])
+  const { confirmed = 0, waitlisted = 0, cancelled = 0 } = stats.get(String(event._id)) ?? {}
+
+  const basePath = `/dashboard/events/${event.slug}`
+  const filterPath = filter === 'all' ? basePath : `${basePath}?status=${filter}`
+
+  return (
+    <section id="dashboard">
+      <div className="flex flex-col gap-4">
+        <Link href="/dashboard" className="text-light-200">
+          ← Dashboard
+        </Link>
+        <h1>{event.title}</h1>
+        <Link href={`/events/${event.slug}`} className="text-primary underline w-fit">
+          View event page
+        </Link>
+      </div>
+
+      <dl className="stats">
+        <div>
+          <dt>Confirmed</dt>
+          <dd>{event.capacity ? `${confirmed} / ${event.capacity}` : confirmed}</dd>
+        </div>
+        <div>
+          <dt>Waitlisted</dt>
+          <dd>{waitlisted}</dd>
+        </div>
+        <div>
+          <dt>Cancelled</dt>
+          <dd>{cancelled}</dd>
+        </div>
+      </dl>
+
+      <div className="flex flex-col gap-4">
+        <h2>Bookings over time</h2>
+        {timeline.length > 0 ? <BookingTimeline days={timeline} /> : <p className="text-light-200">No bookings yet.</p>}
+      </div>
+
+      <div className="flex flex-col gap-4">
+        <h2>Attendees</h2>
+
+        <div className="toolbar">
+          <nav className="filters">
+            {ATTENDEE_FILTERS.map((option) => (
+              <Link
+                key={option}
+                href={option === 'all' ? basePath : `${basePath}?status=${option}`}
+                className={option === filter ? 'active' : undefined}
+              >
+                {option}
+              </Link>
+            ))}
+          </nav>
+          <div className="exports">
+            <a href={`/api/events/${event.slug}/attendees?format=csv&status=${filter}`}>Export CSV</a>
+            <a href={`/api/events/${event.slug}/attendees?format=json&status=${filter}`}>Export JSON</a>
+          </div>
+        </div>
+
+        <AttendeeTable
+          key={`${filter}:${cursor ?? ''}`}
+          slug={event.slug}
+          attendees={attendees.map((booking) => ({
+            id: String(booking._id),
+            email: booking.email,
+            status: attendeeStatus(booking),
+            bookedAt: new Date(booking.createdAt).toISOString(),
+          }))}
+        />
+
+        <div className="pagination">
+          {cursor && <Link href={filterPath}>← First page</Link>}
+          {nextCursor && (
+            <Link href={`${basePath}?${new URLSearchParams({ status: filter, cursor: nextCursor })}`}>Next page →</Link>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-4">
+        <h2>Email attendees</h2>
+        <EmailAttendeesForm slug={event.slug} />
+      </div>
+    </section>
+  )
+}
+export default DashboardEventPage
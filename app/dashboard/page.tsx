@@ -0,0 +1,77 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { redirect } from 'next/navigation'
+
+import { getCurrentUser } from '@/lib/auth'
+import { getDashboardEvents } from '@/lib/dashboard'
+import { toEventItem } from '@/lib/events'
+import { formatEventDates } from '@/lib/timezone'
+
+export const metadata: Metadata = {
+  title: 'Dashboard | DevEvent',
+}
+
+interface Props {
+  searchParams: Promise<{ page?: string }>
+}
+
+const DashboardPage = async ({ searchParams }: Props) => {
+  const user = await getCurrentUser()
+  if (!user) redirect('/sign-in?next=/dashboard')
+
+  const page = Math.max(Number.parseInt((await searchParams).page ?? '1', 10) || 1, 1)
+  const { events, hasMore } = await getDashboardEvents(user, page)
+
+  return (
+    <section id="dashboard">
+      <div className="flex flex-col gap-4">
+        <h1>Dashboard</h1>
+        <p className="text-light-100">
+          {user.role === 'admin' ? 'Every event on DevEvent.' : 'The events you organize.'}{' '}
+          <Link href="/events/create" className="text-primary underline">
+            Create an event
+          </Link>
+        </p>
+      </div>
+
+      {events.length === 0 ? (
+        <p className="text-light-200">You haven&apos;t created any events yet.</p>
+      ) : (
+        <table>
+          <thead>
+            <tr>
+              <th>Event</th>
+              <th>When</th>
+              <th>Confirmed</th>
+              <th>Waitlisted</th>
+              <th>Cancelled</th>
+            </tr>
+          </thead>
+          <tbody>
+            {events.map(({ event, stats }) => {
+              const { timezone, startsAt, endsAt } = toEventItem(event)
+
+              return (
+                <tr key={event.slug}>
+                  <td>
+                    <Link href={`/dashboard/events/${event.slug}`}>{event.title}</Link>
+                  </td>
+                  <td>{formatEventDates(new Date(startsAt), new Date(endsAt), timezone)}</td>
+                  <td>{event.capacity ? `${stats.confirmed} / ${event.capacity}` : stats.confirmed}</td>
+                  <td>{stats.waitlisted}</td>
+                  <td>{stats.cancelled}</td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      )}
+
+      <div className="pagination">
+        {page > 1 && <Link href={`/dashboard?page=${page - 1}`}>← Previous</Link>}
+        {hasMore && <Link href={`/dashboard?page=${page + 1}`}>Next →</Link>}
+      </div>
+    </section>
+  )
+}
+export default DashboardPage
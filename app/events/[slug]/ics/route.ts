@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { ApiError, errorResponse } from '@/lib/errors';
+import { findRenamedEventSlug, getEventBySlug } from '@/lib/events';
+import { buildCalendar, calendarResponse } from '@/lib/ical';
+
+interface RouteContext {
+  params: Promise<{ slug: string }>;
+}
+
+/**
+ * GET /events/[slug]/ics
+ * Download a single event as an iCalendar file
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  try {
+    const { slug } = await params;
+
+    const event = await getEventBySlug(slug);
+    if (!event) {
+      const currentSlug = await findRenamedEventSlug(slug);
+      if (currentSlug) return NextResponse.redirect(new URL(`/events/${currentSlug}/ics`, req.url), 308);
+      throw new ApiError(404, `Event "${slug}" not found`);
+    }
+
+    const calendar = buildCalendar([event], { baseUrl: req.nextUrl.origin });
+
+    return calendarResponse(calendar, `${event.slug}.ics`);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
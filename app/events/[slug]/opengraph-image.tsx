@@ -0,0 +1,115 @@
+import { readFile } from 'fs/promises'
+import { join } from 'path'
+import { ImageResponse } from 'next/og'
+
+import { getEventBySlug, toEventItem } from '@/lib/events'
+import { formatEventDates, formatEventTime } from '@/lib/timezone'
+
+// Share card for event links, rendered with the site fonts and the LightRays mint
+export const alt = 'DevEvent event details'
+export const size = { width: 1200, height: 630 }
+export const contentType = 'image/png'
+export const revalidate = 3600
+
+const MINT = '#5dfeca'
+const BACKGROUND = '#030708'
+
+interface Props {
+  params: Promise<{ slug: string }>
+}
+
+/**
+ * next/og can't read the next/font files, so the same fonts are bundled as .woff in assets/fonts
+ */
+const loadAsset = (path: string) => readFile(join(process.cwd(), path))
+
+const EventImage = async ({ params }: Props) => {
+  const { slug } = await params
+  const [event, schibsted400, schibsted700, martianMono, logo] = await Promise.all([
+    getEventBySlug(slug),
+    loadAsset('assets/fonts/schibsted-grotesk-latin-400-normal.woff'),
+    loadAsset('assets/fonts/schibsted-grotesk-latin-700-normal.woff'),
+    loadAsset('assets/fonts/martian-mono-latin-400-normal.woff'),
+    loadAsset('public/icons/logo.png'),
+  ])
+
+  const item = event && toEventItem(event)
+  const when = item
+    ? [
+        formatEventDates(new Date(item.startsAt), new Date(item.endsAt), item.timezone),
+        formatEventTime(new Date(item.startsAt), item.timezone),
+      ].join(' · ')
+    : null
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          flexDirection: 'column',
+          justifyContent: 'space-between',
+          padding: '64px 72px',
+          color: '#e7f2ff',
+          fontFamily: 'Schibsted Grotesk',
+          backgroundColor: BACKGROUND,
+          backgroundImage: `radial-gradient(circle at 50% -20%, ${MINT}55, ${BACKGROUND} 60%)`,
+        }}
+      >
+        <div style={{ display: 'flex', alignItems: 'center', gap: 16 }}>
+          <img src={`data:image/png;base64,${logo.toString('base64')}`} width={40} height={40} alt="" />
+          <span style={{ fontSize: 32, fontWeight: 700 }}>DevEvent</span>
+        </div>
+
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 28 }}>
+          <div
+            style={{
+              display: 'flex',
+              fontSize: event && event.title.length > 50 ? 60 : 76,
+              fontWeight: 700,
+              lineHeight: 1.1,
+              letterSpacing: -1,
+            }}
+          >
+            {event?.title ?? 'Discover developer events'}
+          </div>
+          {when && (
+            <div style={{ display: 'flex', fontFamily: 'Martian Mono', fontSize: 28, color: MINT }}>{when}</div>
+          )}
+        </div>
+
+        {event ? (
+          <div style={{ display: 'flex', alignItems: 'center', gap: 24, fontSize: 30, color: '#bdbdbd' }}>
+            <span>{event.location}</span>
+            <span
+              style={{
+                display: 'flex',
+                padding: '6px 22px',
+                border: `2px solid ${MINT}`,
+                borderRadius: 999,
+                color: MINT,
+                fontFamily: 'Martian Mono',
+                fontSize: 22,
+                textTransform: 'uppercase',
+              }}
+            >
+              {event.mode}
+            </span>
+          </div>
+        ) : (
+          <div style={{ display: 'flex', fontSize: 30, color: '#bdbdbd' }}>Hackathons, meetups and conferences</div>
+        )}
+      </div>
+    ),
+    {
+      ...size,
+      fonts: [
+        { name: 'Schibsted Grotesk', data: schibsted400, weight: 400, style: 'normal' },
+        { name: 'Schibsted Grotesk', data: schibsted700, weight: 700, style: 'normal' },
+        { name: 'Martian Mono', data: martianMono, weight: 400, style: 'normal' },
+      ],
+    }
+  )
+}
+export default EventImage
@@ -0,0 +1,193 @@
+import type { Metadata } from 'next'
+import Image from 'next/image'
+import { notFound, permanentRedirect } from 'next/navigation'
+
+import AgendaTimeline from '@/app/components/AgendaTimeline'
+import BookEvent from '@/app/components/BookEvent'
+import EventMap from '@/app/components/EventMap'
+import EventViewTracker from '@/app/components/EventViewTracker'
+import LocalTime from '@/app/components/LocalTime'
+import PosterImage from '@/app/components/PosterImage'
+import SeriesDates from '@/app/components/SeriesDates'
+import SimilarEvents from '@/app/components/SimilarEvents'
+import { getBookingCount } from '@/lib/bookings'
+import { findRenamedEventSlug, getEventBySlug, getPopularEventSlugs, toEventItem } from '@/lib/events'
+import { getSimilarEvents } from '@/lib/recommendations'
+import { getSeriesDates } from '@/lib/series'
+import { getEventAgenda } from '@/lib/speakers'
+import { formatEventDates, formatEventTime } from '@/lib/timezone'
+
+// Re-render event pages in the background at most once an hour
+export const revalidate = 3600
+
+interface Props {
+  params: Promise<{ slug: string }>
+}
+
+export async function generateStaticParams() {
+  try {
+    const slugs = await getPopularEventSlugs()
+    return slugs.map((slug) => ({ slug }))
+  } catch (error) {
+    // Don't fail the build when the database is unreachable, pages will render on demand instead
+    console.error('❌ Failed to load event slugs for prerendering:', error)
+    return []
+  }
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { slug } = await params
+  const event = await getEventBySlug(slug)
+
+  if (!event) return { title: 'Event not found | DevEvent' }
+
+  const url = `/events/${event.slug}`
+
+  // The share image comes from opengraph-image.tsx next to this page
+  return {
+    title: `${event.title} | DevEvent`,
+    description: event.overview,
+    alternates: { canonical: url },
+    openGraph: {
+      type: 'website',
+      siteName: 'DevEvent',
+      title: event.title,
+      description: event.overview,
+      url,
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title: event.title,
+      description: event.overview,
+    },
+  }
+}
+
+const EventDetailItem = ({ icon, alt, label }: { icon: string; alt: string; label: string }) => (
+  <div className="flex-row-gap-2 items-center">
+    <Image src={icon} alt={alt} width={17} height={17} />
+    <p>{label}</p>
+  </div>
+)
+
+const EventTags = ({ tags }: { tags: string[] }) => (
+  <div className="flex flex-row gap-1.5 flex-wrap">
+    {tags.map((tag) => (
+      <div className="pill" key={tag}>
+        {tag}
+      </div>
+    ))}
+  </div>
+)
+
+const EventDetailsPage = async ({ params }: Props) => {
+  const { slug } = await params
+  const event = await getEventBySlug(slug)
+
+  if (!event) {
+    // Keep links shared before the event was renamed working
+    const currentSlug = await findRenamedEventSlug(slug)
+    if (currentSlug) permanentRedirect(`/events/${currentSlug}`)
+    notFound()
+  }
+
+  const [bookings, similarEvents, series, agenda] = await Promise.all([
+    getBookingCount(event._id),
+    getSimilarEvents(event._id),
+    event.seriesId ? getSeriesDates(event.seriesId) : null,
+    getEventAgenda(event),
+  ])
+  const spotsLeft = event.capacity ? Math.max(event.capacity - bookings, 0) : null
+
+  const { title, description, overview, image, venue, location, mode, audience, organizer, tags } = event
+  const { timezone, startsAt, endsAt } = toEventItem(event)
+
+  return (
+    <section id="event">
+      <EventViewTracker slug={event.slug} />
+      <div className="header">
+        <h1>{title}</h1>
+        <p>{description}</p>
+      </div>
+
+      <div className="details">
+        <div className="content">
+          <PosterImage src={image} alt={title} width={800} height={800} className="banner" />
+
+          <section className="flex-col-gap-2">
+            <h2>Overview</h2>
+            <p>{overview}</p>
+          </section>
+
+          <section className="flex-col-gap-2">
+            <h2>Event Details</h2>
+            <EventDetailItem
+              icon="/icons/calendar.svg"
+              alt="calendar"
+              label={formatEventDates(new Date(startsAt), new Date(endsAt), timezone)}
+            />
+            <EventDetailItem
+              icon="/icons/clock.svg"
+              alt="clock"
+              label={`${formatEventTime(new Date(startsAt), timezone)} (${timezone})`}
+            />
+            <LocalTime startsAt={startsAt} timezone={timezone} />
+            <EventDetailItem icon="/icons/pin.svg" alt="pin" label={`${venue}, ${location}`} />
+            <EventDetailItem icon="/icons/mode.svg" alt="mode" label={mode} />
+            <EventDetailItem icon="/icons/audience.svg" alt="audience" label={audience} />
+            <a href={`/events/${event.slug}/ics`} className="text-primary underline w-fit">
+              Add to calendar
+            </a>
+          </section>
+
+          {event.geo && <EventMap geo={event.geo} label={`${venue}, ${location}`} />}
+
+          {series && <SeriesDates slug={event.slug} recurrence={series.recurrence} events={series.events} />}
+
+          <AgendaTimeline
+            eventId={String(event._id)}
+            date={event.date}
+            multiDay={Boolean(event.endDate && event.endDate !== event.date)}
+            items={agenda}
+          />
+
+          <section className="flex-col-gap-2">
+            <h2>About the Organizer</h2>
+            <p>{organizer}</p>
+          </section>
+
+          <EventTags tags={tags} />
+        </div>
+
+        <aside className="booking">
+          <div className="signup-card">
+            <h2>Book Your Spot</h2>
+            {bookings > 0 ? (
+              <p className="text-sm">
+                {bookings} {bookings === 1 ? 'person has' : 'people have'} already booked their spot!
+              </p>
+            ) : (
+              <p className="text-sm">Be the first to book your spot!</p>
+            )}
+            {spotsLeft !== null && (
+              <p className="text-sm">
+                {spotsLeft === 0
+                  ? 'This event is sold out, join the waitlist to get a spot if one opens up.'
+                  : `${spotsLeft} of ${event.capacity} ${spotsLeft === 1 ? 'spot' : 'spots'} left`}
+              </p>
+            )}
+
+            {event.cancelledAt ? (
+              <p className="text-sm">This date has been cancelled, see More Dates for the next ones.</p>
+            ) : (
+              <BookEvent slug={event.slug} soldOut={spotsLeft === 0} />
+            )}
+          </div>
+        </aside>
+      </div>
+
+      <SimilarEvents events={similarEvents} />
+    </section>
+  )
+}
+export default EventDetailsPage
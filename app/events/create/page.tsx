@@ -0,0 +1,20 @@
+import { redirect } from 'next/navigation'
+
+import CreateEventForm from '@/app/components/CreateEventForm'
+import { getCurrentUser } from '@/lib/auth'
+
+const CreateEventPage = async () => {
+  if (!(await getCurrentUser())) redirect('/sign-in?next=/events/create')
+
+  return (
+    <section className="flex flex-col gap-10">
+      <div className="flex flex-col gap-4">
+        <h1>Create an Event</h1>
+        <p className="text-light-100">Share your meetup, hackathon or conference with the community.</p>
+      </div>
+
+      <CreateEventForm />
+    </section>
+  )
+}
+export default CreateEventPage
@@ -0,0 +1,102 @@
+import Link from 'next/link'
+
+import EventCard from '@/app/components/EventCard'
+import EventFilters from '@/app/components/EventFilters'
+import { ApiError } from '@/lib/errors'
+import {
+  parseEventSearchParams,
+  searchEvents,
+  toSearchQueryString,
+  type EventSearchParams,
+  type EventSearchResult,
+} from '@/lib/event-search'
+import { toEventItem } from '@/lib/events'
+import { DEFAULT_NEAR_RADIUS_KM } from '@/lib/geo'
+
+interface Props {
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}
+
+/**
+ * Convert Next's searchParams object to URLSearchParams, keeping repeated keys
+ */
+function toURLSearchParams(searchParams: Record<string, string | string[] | undefined>) {
+  const query = new URLSearchParams()
+  for (const [key, value] of Object.entries(searchParams)) {
+    for (const item of Array.isArray(value) ? value : value ? [value] : []) {
+      query.append(key, item)
+    }
+  }
+  return query
+}
+
+const EventsPage = async ({ searchParams }: Props) => {
+  const query = toURLSearchParams(await searchParams)
+
+  let params: EventSearchParams | null = null
+  let result: EventSearchResult = { events: [], nextCursor: null }
+  let error: string | null = null
+
+  try {
+    params = parseEventSearchParams(query)
+    result = await searchEvents(params)
+  } catch (e) {
+    if (!(e instanceof ApiError)) throw e
+    error = Object.values(e.errors ?? {}).join(', ') || e.message
+  }
+
+  const filters: Partial<EventSearchParams> = {
+    q: params?.q,
+    mode: params?.mode,
+    tags: params?.tags ?? [],
+    location: params?.location,
+    from: params?.from,
+    to: params?.to,
+    near: params?.near,
+  }
+  const firstPageQuery = toSearchQueryString(filters)
+
+  return (
+    <section id="events-page">
+      <div className="flex flex-col gap-4">
+        <h1>Explore Events</h1>
+        <p className="text-light-100">Search by topic, filter by mode, location, distance and date.</p>
+      </div>
+
+      <EventFilters
+        key={firstPageQuery}
+        initialValues={{
+          q: filters.q ?? '',
+          mode: filters.mode ?? '',
+          tags: filters.tags ?? [],
+          location: filters.location ?? '',
+          from: filters.from ?? '',
+          to: filters.to ?? '',
+          lat: filters.near ? String(filters.near.lat) : '',
+          lng: filters.near ? String(filters.near.lng) : '',
+          radius: filters.near ? String(filters.near.radius) : String(DEFAULT_NEAR_RADIUS_KM),
+        }}
+      />
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {!error && result.events.length === 0 && <p className="text-light-200">No events match your search.</p>}
+
+      <ul className="events list-none">
+        {result.events.map((event, index) => (
+          <li key={event.slug}>
+            <EventCard {...toEventItem(event)} position={index + 1} list="search" />
+          </li>
+        ))}
+      </ul>
+
+      <div className="pagination">
+        {params?.cursor && <Link href={firstPageQuery ? `/events?${firstPageQuery}` : '/events'}>← First page</Link>}
+        {result.nextCursor && (
+          <Link href={`/events?${toSearchQueryString({ ...filters, cursor: result.nextCursor })}`}>Next page →</Link>
+        )}
+      </div>
+    </section>
+  )
+}
+export default EventsPage
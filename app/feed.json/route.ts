@@ -0,0 +1,20 @@
+import { NextRequest } from 'next/server';
+
+import { errorResponse } from '@/lib/errors';
+import { buildJsonFeed, describeFeed, feedResponse, getFeedEvents, parseFeedFilter } from '@/lib/feeds';
+
+/**
+ * GET /feed.json
+ * JSON Feed 1.1 feed of newly published events
+ * Query params: tag (repeatable), mode
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const filter = parseFeedFilter(req.nextUrl.searchParams);
+    const events = await getFeedEvents(filter);
+
+    return feedResponse(buildJsonFeed(events, describeFeed('/feed.json', filter, events)), 'application/feed+json');
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,20 @@
+import { NextRequest } from 'next/server';
+
+import { errorResponse } from '@/lib/errors';
+import { buildAtomFeed, describeFeed, feedResponse, getFeedEvents, parseFeedFilter } from '@/lib/feeds';
+
+/**
+ * GET /feed.xml
+ * Atom feed of newly published events
+ * Query params: tag (repeatable), mode
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const filter = parseFeedFilter(req.nextUrl.searchParams);
+    const events = await getFeedEvents(filter);
+
+    return feedResponse(buildAtomFeed(events, describeFeed('/feed.xml', filter, events)), 'application/atom+xml');
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -1,8 +1,10 @@
 import type { Metadata } from 'next'
 import { Schibsted_Grotesk, Martian_Mono } from 'next/font/google'
 import './globals.css'
+import ConsentBanner from './components/ConsentBanner'
 import LightRays from './components/LightRays'
 import Navbar from './components/Navbar'
+import { SITE_URL } from '@/lib/site'
 
 const schibstedGrotesk = Schibsted_Grotesk({
   variable: '--font-schibsted-grotesk',
@@ -15,8 +17,16 @@ const martianMono = Martian_Mono({
 })
 
 export const metadata: Metadata = {
+  metadataBase: new URL(SITE_URL),
   title: 'DevEvent',
   description: "Hub for every Dev  Event you mustn't miss",
+  alternates: {
+    types: {
+      'application/atom+xml': '/feed.xml',
+      'application/rss+xml': '/rss.xml',
+      'application/feed+json': '/feed.json',
+    },
+  },
 }
 
 export default function RootLayout({
@@ -46,6 +56,7 @@ export default function RootLayout({
         <main>
           {children}
         </main>
+        <ConsentBanner />
       </body>
     </html>
   )
@@ -1,9 +1,11 @@
 import EventCard from "./components/EventCard"
 import ExploreBtn from "./components/ExploreBtn"
 
-import {events} from "@/lib/constants"
+import { getFeaturedEvents } from "@/lib/events"
+
+const Page = async () => {
+  const events = await getFeaturedEvents()
 
-const Page = () => {
   return (
     <section>
       <h1 className="text-center">
@@ -18,9 +20,9 @@ const Page = () => {
         <h3>Featured Events</h3>
         
         <ul className="events list-none">
-          {events.map((event) => (
-            <li key={event.title}>
-              <EventCard {...event} />
+          {events.map((event, index) => (
+            <li key={event.slug}>
+              <EventCard {...event} position={index + 1} list="featured" />
             </li>
           ))}
         </ul>
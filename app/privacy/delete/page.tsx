@@ -0,0 +1,45 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+
+import ConfirmDataDeletion from '@/app/components/ConfirmDataDeletion'
+import { verifyDataDeletionToken } from '@/lib/privacy'
+
+// Deletion links are private, keep them out of search engines and other sites' referrer logs
+export const metadata: Metadata = {
+  title: 'Delete your data | DevEvent',
+  robots: { index: false, follow: false },
+  referrer: 'no-referrer',
+}
+
+interface Props {
+  searchParams: Promise<{ token?: string }>
+}
+
+const DeleteDataPage = async ({ searchParams }: Props) => {
+  const { token } = await searchParams
+  const email = token ? verifyDataDeletionToken(token) : null
+
+  if (!token || !email) {
+    return (
+      <section id="privacy">
+        <h1>Link expired</h1>
+        <p>
+          This link is invalid or has expired. <Link href="/privacy">Request a new one</Link> from the privacy page.
+        </p>
+      </section>
+    )
+  }
+
+  return (
+    <section id="privacy">
+      <h1>Delete your data</h1>
+      <p className="text-light-100">
+        This permanently deletes every booking of <strong>{email}</strong> and the emails we sent about them. Active
+        bookings are cancelled first, so their spots go to the waitlist.
+      </p>
+
+      <ConfirmDataDeletion token={token} email={email} />
+    </section>
+  )
+}
+export default DeleteDataPage
@@ -0,0 +1,35 @@
+import type { Metadata } from 'next'
+
+import DataDeletionForm from '@/app/components/DataDeletionForm'
+import PrivacySettings from '@/app/components/PrivacySettings'
+
+export const metadata: Metadata = {
+  title: 'Privacy | DevEvent',
+}
+
+const PrivacyPage = () => (
+  <section id="privacy">
+    <h1>Privacy</h1>
+
+    <div className="flex-col-gap-2">
+      <h2>Analytics</h2>
+      <p className="text-light-100">
+        With your consent we use PostHog to see which events people look at and where the booking form gets stuck.
+        Without it, nothing is sent and no analytics cookies are set. Bookings are counted either way, without any
+        cookies, and attendees are only ever identified by a hash of their email.
+      </p>
+      <PrivacySettings />
+    </div>
+
+    <div className="flex-col-gap-2">
+      <h2>Delete your data</h2>
+      <p className="text-light-100">
+        We store the email you book with, so we can send your confirmation and reminders. To delete your bookings and
+        every email we sent you, enter that email and confirm the link we send to it. Active bookings are cancelled and
+        their spots go to the waitlist.
+      </p>
+      <DataDeletionForm />
+    </div>
+  </section>
+)
+export default PrivacyPage
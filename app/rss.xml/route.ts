@@ -0,0 +1,20 @@
+import { NextRequest } from 'next/server';
+
+import { errorResponse } from '@/lib/errors';
+import { buildRssFeed, describeFeed, feedResponse, getFeedEvents, parseFeedFilter } from '@/lib/feeds';
+
+/**
+ * GET /rss.xml
+ * RSS 2.0 feed of newly published events
+ * Query params: tag (repeatable), mode
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const filter = parseFeedFilter(req.nextUrl.searchParams);
+    const events = await getFeedEvents(filter);
+
+    return feedResponse(buildRssFeed(events, describeFeed('/rss.xml', filter, events)), 'application/rss+xml');
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
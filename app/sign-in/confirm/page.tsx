@@ -0,0 +1,38 @@
+import type { Metadata } from 'next'
+import { redirect } from 'next/navigation'
+
+import ConfirmSignIn from '@/app/components/ConfirmSignIn'
+import { safeRedirectPath, verifySignInToken } from '@/lib/auth'
+
+// Sign-in links are private, keep them out of search engines and other sites' referrer logs
+export const metadata: Metadata = {
+  title: 'Sign in | DevEvent',
+  robots: { index: false, follow: false },
+  referrer: 'no-referrer',
+}
+
+interface Props {
+  searchParams: Promise<{ token?: string; next?: string }>
+}
+
+const ConfirmSignInPage = async ({ searchParams }: Props) => {
+  const { token, next } = await searchParams
+  const redirectTo = safeRedirectPath(next)
+  const email = token ? verifySignInToken(token) : null
+
+  if (!token || !email) {
+    redirect(`/sign-in?error=invalid-link&next=${encodeURIComponent(redirectTo)}`)
+  }
+
+  return (
+    <section id="sign-in">
+      <h1>Sign in</h1>
+      <p className="text-light-100">
+        Continue as <strong>{email}</strong>.
+      </p>
+
+      <ConfirmSignIn token={token} next={redirectTo} />
+    </section>
+  )
+}
+export default ConfirmSignInPage
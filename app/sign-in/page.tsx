@@ -0,0 +1,35 @@
+import type { Metadata } from 'next'
+import { redirect } from 'next/navigation'
+
+import SignInForm from '@/app/components/SignInForm'
+import { getCurrentUser, safeRedirectPath } from '@/lib/auth'
+
+export const metadata: Metadata = {
+  title: 'Sign in | DevEvent',
+}
+
+const ERRORS: Record<string, string> = {
+  'invalid-link': 'That sign-in link is invalid, expired or was already used. Request a new one below.',
+}
+
+interface Props {
+  searchParams: Promise<{ next?: string; error?: string }>
+}
+
+const SignInPage = async ({ searchParams }: Props) => {
+  const { next, error } = await searchParams
+  const redirectTo = safeRedirectPath(next)
+
+  if (await getCurrentUser()) redirect(redirectTo)
+
+  return (
+    <section id="sign-in">
+      <h1>Sign in</h1>
+      <p className="text-light-100">Organize events on DevEvent. We&apos;ll email you a link to sign in, no password needed.</p>
+      {error && ERRORS[error] && <p className="error">{ERRORS[error]}</p>}
+
+      <SignInForm next={redirectTo} />
+    </section>
+  )
+}
+export default SignInPage
@@ -0,0 +1,39 @@
+import { NextRequest } from 'next/server';
+
+import { ApiError, errorResponse } from '@/lib/errors';
+import { readLocalFile } from '@/lib/storage/adapters';
+import { getStorageDriver } from '@/lib/storage/public-url';
+
+interface RouteContext {
+  params: Promise<{ key: string[] }>;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  webp: 'image/webp',
+};
+
+/**
+ * GET /uploads/[...key]
+ * Serve a file stored by the local storage adapter, files added to public/ at runtime aren't served in production
+ */
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  try {
+    const { key } = await params;
+    const path = key.join('/');
+    const contentType = CONTENT_TYPES[path.split('.').pop() ?? ''];
+
+    const file = getStorageDriver() === 'local' && contentType ? await readLocalFile(path) : null;
+    if (!file) throw new ApiError(404, 'File not found');
+
+    return new Response(new Uint8Array(file), {
+      status: 200,
+      headers: {
+        'Content-Type': contentType,
+        'Cache-Control': 'public, max-age=31536000, immutable', // Keys are never reused
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -1,11 +1,31 @@
 import mongoose, { Document, Schema, model, models, Types } from 'mongoose';
 
+/**
+ * Lifecycle of a booking, cancelled bookings are kept for the audit history
+ */
+export const BOOKING_STATUSES = ['active', 'cancelled'] as const;
+export type BookingStatus = (typeof BOOKING_STATUSES)[number];
+
+/**
+ * Record of a booking being handed over to another email
+ */
+export interface BookingTransfer {
+  from: string;
+  to: string;
+  at: Date;
+}
+
 /**
  * TypeScript interface for Booking document
  */
-export interface IBooking extends Document {
+export interface IBooking extends Document<Types.ObjectId> {
   eventId: Types.ObjectId;
   email: string;
+  waitlisted: boolean;
+  promotedAt?: Date;
+  status: BookingStatus;
+  cancelledAt?: Date;
+  transfers: BookingTransfer[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -37,6 +57,35 @@ const BookingSchema = new Schema<IBooking>(
       },
       maxlength: [254, 'Email cannot exceed 254 characters'],
     },
+    waitlisted: {
+      type: Boolean,
+      default: false, // True while the event is full, see lib/bookings.ts
+    },
+    promotedAt: {
+      type: Date, // When the booking moved off the waitlist
+    },
+    status: {
+      type: String,
+      enum: {
+        values: [...BOOKING_STATUSES],
+        message: 'Status must be active or cancelled',
+      },
+      default: 'active',
+    },
+    cancelledAt: {
+      type: Date,
+    },
+    transfers: {
+      type: [
+        {
+          _id: false,
+          from: { type: String, required: true },
+          to: { type: String, required: true },
+          at: { type: Date, required: true },
+        },
+      ],
+      default: [],
+    },
   },
   {
     timestamps: true, // Automatically adds createdAt and updatedAt
@@ -72,8 +121,22 @@ BookingSchema.pre<IBooking>('save', async function (next) {
 
 /**
  * Compound index for eventId and email to prevent duplicate bookings
+ * Only active bookings count, so people can book again after cancelling
+ */
+BookingSchema.index(
+  { eventId: 1, email: 1 },
+  { unique: true, name: 'active_booking_per_email', partialFilterExpression: { status: 'active' } }
+);
+
+/**
+ * Index for finding the first person on an event's waitlist
+ */
+BookingSchema.index({ eventId: 1, waitlisted: 1, createdAt: 1 });
+
+/**
+ * Index for paging through an event's attendees in booking order
  */
-BookingSchema.index({ eventId: 1, email: 1 }, { unique: true });
+BookingSchema.index({ eventId: 1, createdAt: 1, _id: 1 });
 
 /**
  * Export Booking model, reuse existing model if already compiled
@@ -0,0 +1,83 @@
+import { Document, Schema, model, models, Types } from 'mongoose';
+
+/**
+ * Lifecycle of an outbox email, see lib/email/outbox.ts
+ */
+export const EMAIL_STATUSES = ['pending', 'sending', 'sent', 'skipped', 'failed'] as const;
+export type EmailStatus = (typeof EMAIL_STATUSES)[number];
+
+/**
+ * TypeScript interface for Email outbox document
+ */
+export interface IEmail extends Document<Types.ObjectId> {
+  key: string; // Idempotency key, one email per key no matter how often it is enqueued
+  template: string;
+  data: Record<string, unknown>; // Template input, the email is rendered when it is sent
+  status: EmailStatus;
+  sendAfter: Date;
+  attempts: number;
+  lockedUntil?: Date; // Set while a worker is sending, so concurrent workers don't send twice
+  lastError?: string; // Why the last attempt failed, or why the email was skipped
+  sentAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Email outbox schema definition, emails are queued here and sent by processOutbox
+ */
+const EmailSchema = new Schema<IEmail>(
+  {
+    key: {
+      type: String,
+      required: [true, 'Idempotency key is required'],
+      unique: true,
+    },
+    template: {
+      type: String,
+      required: [true, 'Template is required'],
+    },
+    data: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    status: {
+      type: String,
+      enum: [...EMAIL_STATUSES],
+      default: 'pending',
+    },
+    sendAfter: {
+      type: Date,
+      default: Date.now,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    lockedUntil: {
+      type: Date,
+    },
+    lastError: {
+      type: String,
+    },
+    sentAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true, // Automatically adds createdAt and updatedAt
+    minimize: false, // Keep empty template data
+  }
+);
+
+/**
+ * Index for finding the emails that are due
+ */
+EmailSchema.index({ status: 1, sendAfter: 1 });
+
+/**
+ * Export Email model, reuse existing model if already compiled
+ */
+const Email = models?.Email || model<IEmail>('Email', EmailSchema);
+
+export default Email;
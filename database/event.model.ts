@@ -1,27 +1,154 @@
-import { Document, Schema, model, models } from 'mongoose';
+import mongoose, { Document, Schema, Types, model, models, type Model } from 'mongoose';
+
+import {
+  EVENT_MAX_LENGTHS,
+  EVENT_MODES,
+  isValidImageUrl,
+  isValidOnlineUrl,
+  normalizeDate,
+  SESSION_MAX_LENGTHS,
+  normalizeTags,
+  normalizeTime,
+  type EventMode,
+} from '@/lib/event-rules';
+import { isValidLatitude, isValidLongitude, parseLocation, type GeoPoint } from '@/lib/geo';
+import { nextAvailableSlug, slugify, slugVariantPattern } from '@/lib/slug';
+import { computeEventSchedule, isValidTimeZone } from '@/lib/timezone';
+
+/**
+ * A session on an event's agenda
+ */
+export interface IAgendaSession {
+  _id: Types.ObjectId; // Stable id, attendees save sessions to their schedule with it
+  title: string;
+  description?: string;
+  date?: string; // YYYY-MM-DD, for multi-day events, defaults to the event's first day
+  startTime?: string; // HH:MM in the event's time zone
+  endTime?: string;
+  track?: string;
+  room?: string;
+  speakerIds: Types.ObjectId[];
+}
 
 /**
  * TypeScript interface for Event document
  */
-export interface IEvent extends Document {
+export interface IEvent extends Document<Types.ObjectId> {
   title: string;
   slug: string;
+  previousSlugs: string[]; // Slugs the event had before it was renamed, old links redirect to the current slug
   description: string;
   overview: string;
   image: string;
   venue: string;
-  location: string;
+  location: string; // Shown as written, e.g. "Mountain View, USA + Online"
+  city?: string;
+  country?: string;
+  geo?: GeoPoint; // Where the venue is, for "near me" searches and the map
+  isOnline: boolean; // Whether attendees can join online, true for online and hybrid events
+  onlineUrl?: string; // Link to join online, only shared with attendees
   date: string;
   time: string;
-  mode: string;
+  timezone: string;
+  endDate?: string;
+  endTime?: string;
+  startsAt: Date;
+  endsAt: Date;
+  mode: EventMode;
   audience: string;
-  agenda: string[];
+  agenda: IAgendaSession[]; // In the order they take place
   organizer: string;
+  ownerId?: Types.ObjectId; // Account that created the event, events without one can only be managed by admins
+  seriesId?: Types.ObjectId; // Series the event is an occurrence of
+  occurrenceDate?: string; // YYYY-MM-DD the series scheduled the occurrence on, even if its date was moved
+  overriddenFields: string[]; // Fields changed on this occurrence only, edits to the series leave them alone
+  cancelledAt?: Date; // Cancelled occurrences are kept so the series doesn't schedule them again
+  isNextOccurrence?: boolean; // Set on the one occurrence listings show for its series, see refreshNextOccurrence
   tags: string[];
+  featured: boolean;
+  capacity?: number;
+  bookedCount: number;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * GeoJSON point schema, see https://www.mongodb.com/docs/manual/reference/geojson/#point
+ */
+const PointSchema = new Schema<GeoPoint>(
+  {
+    type: {
+      type: String,
+      enum: ['Point'],
+      required: true,
+    },
+    coordinates: {
+      type: [Number],
+      required: true,
+      validate: {
+        validator: (coordinates: number[]) =>
+          coordinates.length === 2 && isValidLongitude(coordinates[0]) && isValidLatitude(coordinates[1]),
+        message: 'Coordinates must be a valid [longitude, latitude] pair',
+      },
+    },
+  },
+  { _id: false }
+);
+
+const timeRegex = /^\d{2}:\d{2}$/;
+
+/**
+ * Agenda session schema, sessions keep their _id so they can be saved to a personal schedule
+ */
+const AgendaSessionSchema = new Schema<IAgendaSession>({
+  title: {
+    type: String,
+    required: [true, 'Session title is required'],
+    trim: true,
+    maxlength: [SESSION_MAX_LENGTHS.title, `Session title cannot exceed ${SESSION_MAX_LENGTHS.title} characters`],
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [
+      SESSION_MAX_LENGTHS.description,
+      `Description cannot exceed ${SESSION_MAX_LENGTHS.description} characters`,
+    ],
+  },
+  date: {
+    type: String,
+    match: [/^\d{4}-\d{2}-\d{2}$/, 'Session date must be in YYYY-MM-DD format'],
+  },
+  startTime: {
+    type: String,
+    match: [timeRegex, 'Start time must be in HH:MM format'],
+  },
+  endTime: {
+    type: String,
+    match: [timeRegex, 'End time must be in HH:MM format'],
+    validate: {
+      validator(this: IAgendaSession, endTime: string) {
+        return !this.startTime || endTime > this.startTime;
+      },
+      message: 'Session must end after it starts',
+    },
+  },
+  track: {
+    type: String,
+    trim: true,
+    maxlength: [SESSION_MAX_LENGTHS.track, `Track cannot exceed ${SESSION_MAX_LENGTHS.track} characters`],
+  },
+  room: {
+    type: String,
+    trim: true,
+    maxlength: [SESSION_MAX_LENGTHS.room, `Room cannot exceed ${SESSION_MAX_LENGTHS.room} characters`],
+  },
+  speakerIds: {
+    type: [{ type: Schema.Types.ObjectId, ref: 'Speaker' }],
+    default: [],
+  },
+});
+
 /**
  * Event schema definition with validation and indexes
  */
@@ -31,7 +158,7 @@ const EventSchema = new Schema<IEvent>(
       type: String,
       required: [true, 'Title is required'],
       trim: true,
-      maxlength: [200, 'Title cannot exceed 200 characters'],
+      maxlength: [EVENT_MAX_LENGTHS.title, `Title cannot exceed ${EVENT_MAX_LENGTHS.title} characters`],
     },
     slug: {
       type: String,
@@ -39,31 +166,29 @@ const EventSchema = new Schema<IEvent>(
       lowercase: true,
       index: true,
     },
+    previousSlugs: {
+      type: [String],
+      default: [],
+      index: true,
+    },
     description: {
       type: String,
       required: [true, 'Description is required'],
       trim: true,
-      maxlength: [2000, 'Description cannot exceed 2000 characters'],
+      maxlength: [EVENT_MAX_LENGTHS.description, `Description cannot exceed ${EVENT_MAX_LENGTHS.description} characters`],
     },
     overview: {
       type: String,
       required: [true, 'Overview is required'],
       trim: true,
-      maxlength: [1000, 'Overview cannot exceed 1000 characters'],
+      maxlength: [EVENT_MAX_LENGTHS.overview, `Overview cannot exceed ${EVENT_MAX_LENGTHS.overview} characters`],
     },
     image: {
       type: String,
       required: [true, 'Image URL is required'],
       trim: true,
       validate: {
-        validator: (url: string) => {
-          try {
-            new URL(url);
-            return true;
-          } catch {
-            return false;
-          }
-        },
+        validator: isValidImageUrl,
         message: 'Image must be a valid URL',
       },
     },
@@ -77,6 +202,30 @@ const EventSchema = new Schema<IEvent>(
       required: [true, 'Location is required'],
       trim: true,
     },
+    city: {
+      type: String,
+      trim: true,
+    },
+    country: {
+      type: String,
+      trim: true,
+    },
+    geo: {
+      type: PointSchema,
+      default: undefined,
+    },
+    isOnline: {
+      type: Boolean,
+      default: false,
+    },
+    onlineUrl: {
+      type: String,
+      trim: true,
+      validate: {
+        validator: isValidOnlineUrl,
+        message: 'Online URL must be a valid http(s) URL',
+      },
+    },
     date: {
       type: String,
       required: [true, 'Date is required'],
@@ -85,11 +234,33 @@ const EventSchema = new Schema<IEvent>(
       type: String,
       required: [true, 'Time is required'],
     },
+    timezone: {
+      type: String,
+      required: [true, 'Time zone is required'],
+      default: 'UTC',
+      validate: {
+        validator: isValidTimeZone,
+        message: 'Time zone must be a valid IANA time zone',
+      },
+    },
+    endDate: {
+      type: String,
+    },
+    endTime: {
+      type: String,
+    },
+    startsAt: {
+      type: Date,
+      index: true, // Index for upcoming/past queries
+    },
+    endsAt: {
+      type: Date,
+    },
     mode: {
       type: String,
       required: [true, 'Mode is required'],
       enum: {
-        values: ['online', 'offline', 'hybrid'],
+        values: [...EVENT_MODES],
         message: 'Mode must be online, offline, or hybrid',
       },
     },
@@ -99,11 +270,11 @@ const EventSchema = new Schema<IEvent>(
       trim: true,
     },
     agenda: {
-      type: [String],
+      type: [AgendaSessionSchema],
       required: [true, 'Agenda is required'],
       validate: {
-        validator: (agenda: string[]) => agenda.length > 0,
-        message: 'Agenda must contain at least one item',
+        validator: (agenda: IAgendaSession[]) => agenda.length > 0,
+        message: 'Agenda must contain at least one session',
       },
     },
     organizer: {
@@ -111,14 +282,53 @@ const EventSchema = new Schema<IEvent>(
       required: [true, 'Organizer is required'],
       trim: true,
     },
-    tags: {
+    ownerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      index: true, // Index for listing an organizer's events
+    },
+    seriesId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Series',
+    },
+    occurrenceDate: {
+      type: String,
+    },
+    overriddenFields: {
       type: [String],
+      default: [],
+    },
+    cancelledAt: {
+      type: Date,
+    },
+    isNextOccurrence: {
+      type: Boolean,
+    },
+    tags: {
+      type: [{ type: String, trim: true, lowercase: true }], // Filters look tags up in lowercase
       required: [true, 'Tags are required'],
       validate: {
         validator: (tags: string[]) => tags.length > 0,
         message: 'At least one tag is required',
       },
     },
+    featured: {
+      type: Boolean,
+      default: false,
+    },
+    capacity: {
+      type: Number,
+      min: [1, 'Capacity must be at least 1'],
+      validate: {
+        validator: Number.isInteger,
+        message: 'Capacity must be a whole number',
+      },
+    },
+    bookedCount: {
+      type: Number,
+      default: 0, // Confirmed bookings, kept in sync atomically by lib/bookings.ts
+      min: 0,
+    },
   },
   {
     timestamps: true, // Automatically adds createdAt and updatedAt
@@ -126,51 +336,170 @@ const EventSchema = new Schema<IEvent>(
 );
 
 /**
- * Pre-save hook to generate slug from title and normalize date/time
+ * Compound index for the home page listing, featured events first then by date
  */
-EventSchema.pre<IEvent>('save', function (next) {
-  // Generate slug only if title is new or modified
-  if (this.isNew || this.isModified('title')) {
-    this.slug = this.title
-      .toLowerCase()
-      .trim()
-      .replace(/[^\w\s-]/g, '') // Remove special characters
-      .replace(/[\s_-]+/g, '-') // Replace spaces, underscores, and multiple hyphens with single hyphen
-      .replace(/^-+|-+$/g, ''); // Remove leading/trailing hyphens
+EventSchema.index({ featured: -1, date: 1 });
+
+/**
+ * Indexes for the events search: full-text over title/description/tags,
+ * tag filters and the (date, _id) order used for cursor pagination
+ */
+EventSchema.index(
+  { title: 'text', description: 'text', tags: 'text' },
+  { name: 'event_text_search', weights: { title: 10, tags: 5, description: 1 } }
+);
+EventSchema.index({ tags: 1 });
+EventSchema.index({ 'agenda.speakerIds': 1 }); // Index for a speaker's sessions
+EventSchema.index({ date: 1, _id: 1 });
+
+/**
+ * One occurrence per scheduled date of a series, so concurrent scheduling can't create it twice
+ */
+EventSchema.index(
+  { seriesId: 1, occurrenceDate: 1 },
+  { unique: true, partialFilterExpression: { seriesId: { $exists: true } } }
+);
+
+/**
+ * Index for "near me" searches, events without coordinates are left out of it
+ */
+EventSchema.index({ geo: '2dsphere' });
+
+/**
+ * Build a ValidationError for a single path so hook failures are reported
+ * the same way as schema validator failures
+ */
+function pathValidationError(doc: IEvent, path: string, message: string) {
+  const error = new mongoose.Error.ValidationError();
+  error.addError(path, new mongoose.Error.ValidatorError({ path, message, value: doc.get(path) }));
+  return error;
+}
+
+/**
+ * Pre-validate hook to check that sessions only list speakers added by the event's organizer
+ * Runs on validate() too, so series templates are checked before the series is saved
+ */
+EventSchema.pre<IEvent>('validate', async function () {
+  if (!this.isNew && !this.isModified(['agenda', 'ownerId'])) return;
+
+  const ids = [...new Set(this.agenda.flatMap(({ speakerIds }) => speakerIds.map(String)))];
+  if (ids.length === 0) return;
+
+  const Speaker = mongoose.models.Speaker || (await import('./speaker.model')).default;
+  const known = await Speaker.find({ _id: { $in: ids }, ownerId: this.ownerId ?? null }).distinct('_id');
+  const knownIds = new Set(known.map(String));
+
+  const index = this.agenda.findIndex(({ speakerIds }) => speakerIds.some((id) => !knownIds.has(String(id))));
+  if (index !== -1) throw pathValidationError(this, `agenda.${index}.speakerIds`, 'Speaker not found');
+});
+
+/**
+ * Pre-save hook to generate the slug from the title, unless a new event was given one explicitly (e.g. by the seed)
+ * Taken slugs get a numeric suffix, and slugs an event had before a rename stay reserved for its redirects
+ */
+EventSchema.pre<IEvent>('save', async function () {
+  const generate = (this.isNew && !this.slug) || (!this.isNew && this.isModified('title'));
+  if (!generate) return;
+
+  // Occurrences of a series share its title, so their date tells them apart
+  const base = slugify(this.occurrenceDate ? `${this.title} ${this.occurrenceDate}` : this.title);
+  const pattern = slugVariantPattern(base);
+
+  const others = await (this.constructor as Model<IEvent>)
+    .find({ _id: { $ne: this._id }, $or: [{ slug: pattern }, { previousSlugs: pattern }] })
+    .select('slug previousSlugs')
+    .lean<Pick<IEvent, 'slug' | 'previousSlugs'>[]>();
+  // Slugs a concurrent save took after they were looked up, see saveEvent in lib/events.ts
+  const taken = (this.$locals.takenSlugs as string[] | undefined) ?? [];
+  const variants = [...others.flatMap(({ slug, previousSlugs }) => [slug, ...(previousSlugs ?? [])]), ...taken].filter(
+    (candidate) => pattern.test(candidate)
+  );
+
+  // Renames that leave the slug as it would be generated (e.g. only changing case) keep it
+  if (this.slug === base || (this.slug && pattern.test(this.slug) && variants.includes(base))) return;
+
+  const slug = nextAvailableSlug(base, variants);
+
+  if (!this.isNew) {
+    // Renaming back to an earlier title takes that slug out of the history again
+    const history = this.previousSlugs.filter((previous) => previous !== slug && previous !== this.slug);
+    this.previousSlugs = [...history, this.slug];
   }
+  this.slug = slug;
+});
 
+/**
+ * Pre-save hook to normalize date/time, derive the structured location and compute the UTC schedule
+ */
+EventSchema.pre<IEvent>('save', function (next) {
   // Normalize date to ISO format if modified
   if (this.isNew || this.isModified('date')) {
-    try {
-      const normalizedDate = new Date(this.date);
-      if (isNaN(normalizedDate.getTime())) {
-        throw new Error('Invalid date format');
-      }
-      this.date = normalizedDate.toISOString().split('T')[0]; // YYYY-MM-DD format
-    } catch {
-      return next(new Error('Date must be in a valid format (YYYY-MM-DD or ISO string)'));
+    const normalizedDate = normalizeDate(this.date);
+    if (!normalizedDate) {
+      return next(pathValidationError(this, 'date', 'Date must be in a valid format (YYYY-MM-DD or ISO string)'));
     }
+    this.date = normalizedDate; // YYYY-MM-DD format
   }
 
   // Normalize time to consistent format (HH:MM)
   if (this.isNew || this.isModified('time')) {
-    const timeRegex = /^([01]?[0-9]|2[0-3]):([0-5][0-9])$/;
-    if (!timeRegex.test(this.time)) {
-      // Try to parse common time formats
-      try {
-        const timeObj = new Date(`2000-01-01T${this.time}`);
-        if (isNaN(timeObj.getTime())) {
-          throw new Error('Invalid time');
-        }
-        this.time = timeObj.toTimeString().slice(0, 5); // HH:MM format
-      } catch {
-        return next(new Error('Time must be in HH:MM format'));
-      }
+    const normalizedTime = normalizeTime(this.time);
+    if (!normalizedTime) {
+      return next(pathValidationError(this, 'time', 'Time must be in HH:MM format'));
     }
+    this.time = normalizedTime;
   }
 
-  // Validate required array fields are not empty
-  next();
+  // Normalize the optional end of multi-day events
+  if (this.endDate && (this.isNew || this.isModified('endDate'))) {
+    const normalizedEndDate = normalizeDate(this.endDate);
+    if (!normalizedEndDate) {
+      return next(pathValidationError(this, 'endDate', 'End date must be in a valid format (YYYY-MM-DD or ISO string)'));
+    }
+    this.endDate = normalizedEndDate;
+  }
+  if (this.endTime && (this.isNew || this.isModified('endTime'))) {
+    const normalizedEndTime = normalizeTime(this.endTime);
+    if (!normalizedEndTime) {
+      return next(pathValidationError(this, 'endTime', 'End time must be in HH:MM format'));
+    }
+    this.endTime = normalizedEndTime;
+  }
+
+  // Drop tags that were empty or only differed in case
+  if (this.isNew || this.isModified('tags')) {
+    this.tags = normalizeTags(this.tags);
+    if (this.tags.length === 0) return next(pathValidationError(this, 'tags', 'At least one tag is required'));
+  }
+
+  // Fill in the city and country from the location, unless they were given explicitly
+  if (this.isNew || this.isModified('location')) {
+    const { city, country } = parseLocation(this.location);
+    if (!this.isModified('city')) this.city = city ?? undefined;
+    if (!this.isModified('country')) this.country = country ?? undefined;
+  }
+
+  if (this.isNew || this.isModified('mode')) {
+    this.isOnline = this.mode !== 'offline';
+  }
+
+  // Compute UTC start/end from the local schedule so queries and calendars don't depend on the server's time zone
+  if (this.isNew || !this.startsAt || this.isModified(['date', 'time', 'timezone', 'endDate', 'endTime'])) {
+    const { startsAt, endsAt } = computeEventSchedule(this);
+    if (endsAt <= startsAt) {
+      return next(pathValidationError(this, this.endTime ? 'endTime' : 'endDate', 'Event must end after it starts'));
+    }
+    this.startsAt = startsAt;
+    this.endsAt = endsAt;
+  }
+
+  // Sessions of multi-day events are placed on one of its days
+  if (this.isNew || this.isModified(['date', 'endDate', 'agenda'])) {
+    const lastDate = this.endDate ?? this.date;
+    if (this.agenda.some(({ date }) => date && (date < this.date || date > lastDate))) {
+      return next(pathValidationError(this, 'agenda', 'Sessions must take place while the event runs'));
+    }
+  }
 
   next();
 });
@@ -3,5 +3,10 @@
  * Centralized export point for all database models
  */
 
-export { default as Event, type IEvent } from './event.model';
-export { default as Booking, type IBooking } from './booking.model';
\ No newline at end of file
+export { default as Event, type IAgendaSession, type IEvent } from './event.model';
+export { default as Booking, type BookingStatus, type IBooking } from './booking.model';
+export { default as Email, type EmailStatus, type IEmail } from './email.model';
+export { default as User, type IUser, type UserRole } from './user.model';
+export { default as Session, type ISession } from './session.model';
+export { default as Series, type ISeries } from './series.model';
+export { default as Speaker, type ISpeaker, type SpeakerLink } from './speaker.model';
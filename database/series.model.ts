@@ -0,0 +1,80 @@
+import { Document, Schema, model, models, Types } from 'mongoose';
+
+import { RECURRENCE_FREQUENCIES, validateRecurrence, type RecurrenceRule } from '@/lib/recurrence';
+
+/**
+ * TypeScript interface for Series document
+ * A series owns its occurrences, which are stored as events with a seriesId
+ */
+export interface ISeries extends Document<Types.ObjectId> {
+  template: Record<string, unknown>; // Content every occurrence starts from, see SeriesTemplate in lib/series.ts
+  startDate: string; // YYYY-MM-DD, date of the first occurrence
+  recurrence: RecurrenceRule;
+  ownerId?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RecurrenceSchema = new Schema<RecurrenceRule>(
+  {
+    frequency: {
+      type: String,
+      required: true,
+      enum: [...RECURRENCE_FREQUENCIES],
+    },
+    interval: {
+      type: Number,
+      required: true,
+      default: 1,
+    },
+    count: {
+      type: Number,
+    },
+    until: {
+      type: String,
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Series schema definition
+ */
+const SeriesSchema = new Schema<ISeries>(
+  {
+    template: {
+      type: Schema.Types.Mixed,
+      required: [true, 'Template is required'],
+    },
+    startDate: {
+      type: String,
+      required: [true, 'Start date is required'],
+      match: [/^\d{4}-\d{2}-\d{2}$/, 'Start date must be in YYYY-MM-DD format'],
+    },
+    recurrence: {
+      type: RecurrenceSchema,
+      required: [true, 'Recurrence is required'],
+      validate: {
+        validator(this: ISeries, rule: RecurrenceRule) {
+          return Object.keys(validateRecurrence(rule, this.startDate)).length === 0;
+        },
+        message: 'Recurrence is invalid',
+      },
+    },
+    ownerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      index: true,
+    },
+  },
+  {
+    timestamps: true, // Automatically adds createdAt and updatedAt
+  }
+);
+
+/**
+ * Export Series model, reuse existing model if already compiled
+ */
+const Series = models?.Series || model<ISeries>('Series', SeriesSchema);
+
+export default Series;
@@ -0,0 +1,50 @@
+import { Document, Schema, model, models, Types } from 'mongoose';
+
+/**
+ * TypeScript interface for Session document
+ */
+export interface ISession extends Document<Types.ObjectId> {
+  tokenHash: string; // SHA-256 of the session cookie, so a database leak doesn't leak sessions
+  userId: Types.ObjectId;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Session schema definition, one document per signed-in browser
+ */
+const SessionSchema = new Schema<ISession>(
+  {
+    tokenHash: {
+      type: String,
+      required: [true, 'Token hash is required'],
+      unique: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+      index: true, // Index for signing a user out everywhere
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiry is required'],
+    },
+  },
+  {
+    timestamps: true, // Automatically adds createdAt and updatedAt
+  }
+);
+
+/**
+ * TTL index, MongoDB removes sessions once they expire
+ */
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+/**
+ * Export Session model, reuse existing model if already compiled
+ */
+const Session = models?.Session || model<ISession>('Session', SessionSchema);
+
+export default Session;
@@ -0,0 +1,103 @@
+import { Document, Schema, model, models, Types } from 'mongoose';
+
+import { isValidImageUrl, isValidOnlineUrl } from '@/lib/event-rules';
+
+export interface SpeakerLink {
+  label: string; // e.g. "GitHub" or "Website"
+  url: string;
+}
+
+/**
+ * TypeScript interface for Speaker document
+ * Speakers are shared between events, sessions refer to them by id
+ */
+export interface ISpeaker extends Document<Types.ObjectId> {
+  name: string;
+  bio?: string;
+  avatar?: string;
+  links: SpeakerLink[];
+  ownerId?: Types.ObjectId; // Organizer who added the speaker
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const SPEAKER_MAX_LENGTHS = {
+  name: 100,
+  bio: 1000,
+} as const;
+
+/**
+ * Most links shown for a speaker
+ */
+export const MAX_SPEAKER_LINKS = 5;
+
+const SpeakerLinkSchema = new Schema<SpeakerLink>(
+  {
+    label: {
+      type: String,
+      required: [true, 'Link label is required'],
+      trim: true,
+      maxlength: [40, 'Link label cannot exceed 40 characters'],
+    },
+    url: {
+      type: String,
+      required: [true, 'Link URL is required'],
+      trim: true,
+      validate: {
+        validator: isValidOnlineUrl,
+        message: 'Link must be a valid http(s) URL',
+      },
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Speaker schema definition
+ */
+const SpeakerSchema = new Schema<ISpeaker>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Name is required'],
+      trim: true,
+      maxlength: [SPEAKER_MAX_LENGTHS.name, `Name cannot exceed ${SPEAKER_MAX_LENGTHS.name} characters`],
+    },
+    bio: {
+      type: String,
+      trim: true,
+      maxlength: [SPEAKER_MAX_LENGTHS.bio, `Bio cannot exceed ${SPEAKER_MAX_LENGTHS.bio} characters`],
+    },
+    avatar: {
+      type: String,
+      trim: true,
+      validate: {
+        validator: isValidImageUrl,
+        message: 'Avatar must be a valid URL',
+      },
+    },
+    links: {
+      type: [SpeakerLinkSchema],
+      default: [],
+      validate: {
+        validator: (links: SpeakerLink[]) => links.length <= MAX_SPEAKER_LINKS,
+        message: `A speaker can have at most ${MAX_SPEAKER_LINKS} links`,
+      },
+    },
+    ownerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      index: true, // Index for listing an organizer's speakers
+    },
+  },
+  {
+    timestamps: true, // Automatically adds createdAt and updatedAt
+  }
+);
+
+/**
+ * Export Speaker model, reuse existing model if already compiled
+ */
+const Speaker = models?.Speaker || model<ISpeaker>('Speaker', SpeakerSchema);
+
+export default Speaker;
@@ -0,0 +1,70 @@
+import { Document, Schema, model, models, Types } from 'mongoose';
+
+/**
+ * What a user may do: organizers create and manage their own events, admins manage every event
+ */
+export const USER_ROLES = ['organizer', 'admin'] as const;
+export type UserRole = (typeof USER_ROLES)[number];
+
+/**
+ * TypeScript interface for User document
+ */
+export interface IUser extends Document<Types.ObjectId> {
+  email: string;
+  name?: string;
+  role: UserRole;
+  lastSignInAt?: Date; // Sign-in links issued before this are no longer valid
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Email validation regex pattern
+ */
+const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * User schema definition with validation and indexes
+ */
+const UserSchema = new Schema<IUser>(
+  {
+    email: {
+      type: String,
+      required: [true, 'Email is required'],
+      unique: true,
+      lowercase: true,
+      trim: true,
+      validate: {
+        validator: (email: string) => emailRegex.test(email),
+        message: 'Please provide a valid email address',
+      },
+      maxlength: [254, 'Email cannot exceed 254 characters'],
+    },
+    name: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'Name cannot exceed 100 characters'],
+    },
+    role: {
+      type: String,
+      enum: {
+        values: [...USER_ROLES],
+        message: 'Role must be organizer or admin',
+      },
+      default: 'organizer',
+    },
+    lastSignInAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true, // Automatically adds createdAt and updatedAt
+  }
+);
+
+/**
+ * Export User model, reuse existing model if already compiled
+ */
+const User = models?.User || model<IUser>('User', UserSchema);
+
+export default User;
@@ -1,9 +1,19 @@
 import posthog from "posthog-js"
 
+import { readConsent } from "@/lib/consent"
+
+// Until the visitor opts in, capture nothing and keep PostHog's ids in memory instead of cookies
+const consented = readConsent() === "granted"
+
 posthog.init(process.env.NEXT_PUBLIC_POSTHOG_KEY!, {
   api_host: "/ingest",
   ui_host: "https://us.posthog.com",
   defaults: "2025-05-24",
   capture_exceptions: true, // This enables capturing exceptions using Error Tracking, set to false if you don't want this
   debug: process.env.NODE_ENV === "development",
+  opt_out_capturing_by_default: !consented,
+  persistence: consented ? "localStorage+cookie" : "memory",
 })
+
+// PostHog remembers an earlier opt-in on its own, the consent cookie is what counts
+if (!consented) posthog.opt_out_capturing()
@@ -0,0 +1,56 @@
+'use server';
+
+import { createSession, destroySession, requestSignInLink, safeRedirectPath, signInWithToken } from '@/lib/auth';
+import { sendEmailsAfterResponse } from '@/lib/email';
+import { toErrorBody, type FieldErrors } from '@/lib/errors';
+
+export type SignInResult = { success: true } | { success: false; message: string; errors?: FieldErrors };
+
+const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Email a sign-in link
+ * Succeeds for any valid email, so the form doesn't reveal who has an account
+ */
+export async function requestSignIn(email: string, next?: string): Promise<SignInResult> {
+  const address = email.trim().toLowerCase();
+  if (!emailRegex.test(address)) {
+    return { success: false, message: 'Validation failed', errors: { email: 'Please provide a valid email address' } };
+  }
+
+  try {
+    await requestSignInLink(address, safeRedirectPath(next));
+    sendEmailsAfterResponse();
+
+    return { success: true };
+  } catch (error) {
+    const { body } = toErrorBody(error);
+    return { success: false, message: body.message };
+  }
+}
+
+/**
+ * Redeem a sign-in link and start a session in this browser
+ */
+export async function signInWithLink(token: string): Promise<SignInResult> {
+  try {
+    const user = await signInWithToken(token);
+    if (!user) {
+      return { success: false, message: 'That sign-in link is invalid, expired or was already used' };
+    }
+
+    await createSession(user._id);
+
+    return { success: true };
+  } catch (error) {
+    console.error('❌ Sign-in failed:', error);
+    return { success: false, message: 'Something went wrong while signing you in, please try again' };
+  }
+}
+
+/**
+ * Sign out of the current browser
+ */
+export async function signOut(): Promise<void> {
+  await destroySession();
+}
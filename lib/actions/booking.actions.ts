@@ -0,0 +1,91 @@
+'use server';
+
+import { Event, type IEvent } from '@/database';
+import { capture, emailDistinctId } from '@/lib/analytics';
+import { ALREADY_REGISTERED_MESSAGE, cancelBooking, findBookingByToken, transferBooking } from '@/lib/bookings';
+import { sendEmailsAfterResponse } from '@/lib/email';
+import { isDuplicateKeyError, toErrorBody, type FieldErrors } from '@/lib/errors';
+import { revalidateEvents } from '@/lib/events';
+
+export type ManageBookingResult =
+  | { success: true; message: string }
+  | { success: false; message: string; errors?: FieldErrors };
+
+const INVALID_LINK_MESSAGE = 'This link is invalid or has expired';
+
+/**
+ * Refresh the booked count and spots left of the booking's event
+ */
+async function revalidateBookingEvent(eventId: IEvent['_id']) {
+  const event = await Event.findById(eventId).select('slug').lean<Pick<IEvent, 'slug'>>();
+  if (event) revalidateEvents(event.slug);
+}
+
+/**
+ * Cancel the booking a manage link refers to
+ */
+export async function cancelBookingByToken(token: string): Promise<ManageBookingResult> {
+  try {
+    const booking = await findBookingByToken(token);
+    if (!booking) return { success: false, message: INVALID_LINK_MESSAGE };
+
+    const result = await cancelBooking(booking._id);
+    if (!result) return { success: false, message: 'This booking has already been cancelled' };
+
+    await revalidateBookingEvent(booking.eventId);
+    if (result.promoted.length > 0) sendEmailsAfterResponse();
+
+    capture(
+      'booking_cancelled',
+      {
+        event_id: String(booking.eventId),
+        booking_id: String(booking._id),
+        cancelled_by: 'attendee',
+        promoted: result.promoted.length,
+      },
+      emailDistinctId(booking.email)
+    );
+
+    return { success: true, message: 'Your booking has been cancelled' };
+  } catch (error) {
+    const { body } = toErrorBody(error);
+    return { success: false, message: body.message };
+  }
+}
+
+/**
+ * Transfer the booking a manage link refers to to another email
+ * The link stops working afterwards, the new attendee manages the booking with their own link
+ */
+export async function transferBookingByToken(token: string, email: string): Promise<ManageBookingResult> {
+  const nextEmail = email.trim().toLowerCase();
+  if (!nextEmail) {
+    return { success: false, message: 'Validation failed', errors: { email: 'Email is required' } };
+  }
+
+  try {
+    const booking = await findBookingByToken(token);
+    if (!booking) return { success: false, message: INVALID_LINK_MESSAGE };
+
+    if (booking.email === nextEmail) {
+      return { success: false, message: 'Validation failed', errors: { email: 'This booking already uses that email' } };
+    }
+
+    const transferred = await transferBooking(booking._id, nextEmail);
+    if (!transferred) return { success: false, message: 'Cancelled bookings cannot be transferred' };
+    sendEmailsAfterResponse();
+
+    return { success: true, message: `Your booking now belongs to ${transferred.email}` };
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      return {
+        success: false,
+        message: ALREADY_REGISTERED_MESSAGE,
+        errors: { email: `${nextEmail} is already registered for this event` },
+      };
+    }
+
+    const { body } = toErrorBody(error);
+    return { success: false, message: body.message, errors: body.errors };
+  }
+}
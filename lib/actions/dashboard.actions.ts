@@ -0,0 +1,125 @@
+'use server';
+
+import { Types } from 'mongoose';
+
+import connectToDatabase from '@/lib/mongoose';
+import { Booking, Event, type IEvent } from '@/database';
+import { capture, emailDistinctId } from '@/lib/analytics';
+import { requireEventManager } from '@/lib/auth';
+import { cancelBooking, emailAttendees, type AttendeeMessage } from '@/lib/bookings';
+import { sendEmailsAfterResponse } from '@/lib/email';
+import { ApiError, toErrorBody, type FieldErrors } from '@/lib/errors';
+import { revalidateEvents } from '@/lib/events';
+
+export type DashboardActionResult =
+  | { success: true; message: string }
+  | { success: false; message: string; errors?: FieldErrors };
+
+/**
+ * Most bookings that can be cancelled at once, one page of the attendee list
+ */
+const MAX_BULK_CANCEL = 100;
+
+const MAX_SUBJECT_LENGTH = 200;
+const MAX_MESSAGE_LENGTH = 5000;
+
+/**
+ * Load an event the signed-in user manages
+ * @throws ApiError - 404 when it doesn't exist, 401/403 when the user may not manage it
+ */
+async function findManagedEvent(slug: string) {
+  await connectToDatabase();
+
+  const event = await Event.findOne({ slug: slug.toLowerCase() })
+    .select('_id slug ownerId')
+    .lean<Pick<IEvent, '_id' | 'slug' | 'ownerId'>>();
+  if (!event) throw new ApiError(404, `Event "${slug}" not found`);
+  await requireEventManager(event);
+
+  return event;
+}
+
+/**
+ * Cancel the selected bookings of an event, promoting people from the waitlist into the freed seats
+ */
+export async function cancelAttendeeBookings(slug: string, bookingIds: string[]): Promise<DashboardActionResult> {
+  try {
+    const event = await findManagedEvent(slug);
+
+    const ids = bookingIds.filter((id) => Types.ObjectId.isValid(id)).map((id) => new Types.ObjectId(id));
+    if (ids.length === 0) return { success: false, message: 'Select at least one booking' };
+    if (ids.length > MAX_BULK_CANCEL) {
+      return { success: false, message: `You can cancel at most ${MAX_BULK_CANCEL} bookings at once` };
+    }
+
+    // Only bookings of this event, so organizers can't cancel bookings of events they don't manage
+    const bookings = await Booking.find({ _id: { $in: ids }, eventId: event._id, status: 'active' }).select(
+      '_id email'
+    );
+
+    let cancelled = 0;
+    let promoted = 0;
+    for (const { _id, email } of bookings) {
+      const result = await cancelBooking(_id);
+      if (!result) continue;
+      cancelled++;
+      promoted += result.promoted.length;
+
+      capture(
+        'booking_cancelled',
+        {
+          event_id: String(event._id),
+          booking_id: String(_id),
+          cancelled_by: 'organizer',
+          promoted: result.promoted.length,
+        },
+        emailDistinctId(email)
+      );
+    }
+
+    revalidateEvents(event.slug);
+    if (promoted > 0) sendEmailsAfterResponse();
+
+    const summary = `Cancelled ${cancelled} ${cancelled === 1 ? 'booking' : 'bookings'}`;
+
+    return { success: true, message: promoted > 0 ? `${summary}, promoted ${promoted} from the waitlist` : summary };
+  } catch (error) {
+    const { body } = toErrorBody(error);
+    return { success: false, message: body.message };
+  }
+}
+
+/**
+ * Email every active attendee of an event
+ */
+export async function emailEventAttendees(slug: string, input: AttendeeMessage): Promise<DashboardActionResult> {
+  const subject = input.subject.trim();
+  const message = input.message.trim();
+
+  const errors: FieldErrors = {};
+  if (!subject) {
+    errors.subject = 'Subject is required';
+  } else if (subject.length > MAX_SUBJECT_LENGTH) {
+    errors.subject = `Subject cannot exceed ${MAX_SUBJECT_LENGTH} characters`;
+  }
+  if (!message) {
+    errors.message = 'Message is required';
+  } else if (message.length > MAX_MESSAGE_LENGTH) {
+    errors.message = `Message cannot exceed ${MAX_MESSAGE_LENGTH} characters`;
+  }
+  if (!input.requestId) errors.requestId = 'Request ID is required';
+
+  if (Object.keys(errors).length > 0) return { success: false, message: 'Validation failed', errors };
+
+  try {
+    const event = await findManagedEvent(slug);
+
+    const queued = await emailAttendees(event._id, { ...input, subject, message });
+    if (queued > 0) sendEmailsAfterResponse();
+
+    return { success: true, message: `Sending your message to ${queued} ${queued === 1 ? 'attendee' : 'attendees'}` };
+  } catch (error) {
+    const { body } = toErrorBody(error);
+    return { success: false, message: body.message };
+  }
+}
@@ -0,0 +1,77 @@
+'use server';
+
+import connectToDatabase from '@/lib/mongoose';
+import { Event } from '@/database';
+import { toAgendaSessions } from '@/lib/agenda';
+import { capture, eventCreatedProperties } from '@/lib/analytics';
+import { getCurrentUser } from '@/lib/auth';
+import { toErrorBody, type FieldErrors } from '@/lib/errors';
+import { toRecurrenceRule, validateEventInput, type EventFormValues } from '@/lib/event-rules';
+import { DUPLICATE_EVENT_MESSAGES, pickEventFields, revalidateEvents, saveEvent } from '@/lib/events';
+import { toGeoPoint } from '@/lib/geo';
+import { createSeries, pickSeriesTemplate } from '@/lib/series';
+
+export type CreateEventResult =
+  | { success: true; slug: string }
+  | { success: false; message: string; errors: FieldErrors };
+
+/**
+ * Create an event from the Create Event form, or a series when it repeats
+ * Validation errors are returned per field so the form can show them inline
+ */
+export async function createEvent(values: EventFormValues): Promise<CreateEventResult> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return { success: false, message: 'Please sign in to create an event', errors: {} };
+  }
+
+  const errors = validateEventInput(values);
+  if (Object.keys(errors).length > 0) {
+    return { success: false, message: 'Please fix the highlighted fields', errors };
+  }
+
+  try {
+    await connectToDatabase();
+
+    const fields = {
+      ...pickEventFields(values, user),
+      agenda: toAgendaSessions(values.agenda),
+      // The end of the event is optional, don't store empty strings
+      endDate: values.endDate || undefined,
+      endTime: values.endTime || undefined,
+      capacity: values.capacity ? Number(values.capacity) : undefined,
+      geo:
+        values.latitude && values.longitude
+          ? toGeoPoint(Number(values.latitude), Number(values.longitude))
+          : undefined,
+      onlineUrl: values.onlineUrl.trim() || undefined,
+    };
+
+    // A recurring event becomes a series, the organizer lands on its first date
+    const recurrence = toRecurrenceRule(values);
+    const event = recurrence
+      ? (await createSeries(pickSeriesTemplate(fields), values.date, recurrence, user.id)).occurrences[0]
+      : await saveEvent(new Event({ ...fields, ownerId: user.id }));
+    revalidateEvents();
+    capture('event_created', eventCreatedProperties(event), user.id);
+
+    return { success: true, slug: event.slug };
+  } catch (error) {
+    const { body } = toErrorBody(error, DUPLICATE_EVENT_MESSAGES);
+    const fieldErrors = { ...body.errors };
+
+    // Report errors of a single session next to the agenda
+    for (const key of Object.keys(fieldErrors).filter((key) => key.startsWith('agenda.'))) {
+      fieldErrors.agenda ??= fieldErrors[key];
+      delete fieldErrors[key];
+    }
+
+    // The slug is derived from the title, so report collisions next to the title input
+    if (fieldErrors.slug) {
+      fieldErrors.title = fieldErrors.slug;
+      delete fieldErrors.slug;
+    }
+
+    return { success: false, message: body.message, errors: fieldErrors };
+  }
+}
@@ -0,0 +1,56 @@
+'use server';
+
+import { sendEmailsAfterResponse } from '@/lib/email';
+import { toErrorBody, type FieldErrors } from '@/lib/errors';
+import { revalidateEvents } from '@/lib/events';
+import { deleteAttendeeData, requestDataDeletion, verifyDataDeletionToken } from '@/lib/privacy';
+
+export type PrivacyActionResult =
+  | { success: true; message: string }
+  | { success: false; message: string; errors?: FieldErrors };
+
+const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Email a link that confirms deleting the data stored for an email
+ * Succeeds for any valid email, so the form doesn't reveal who has booked
+ */
+export async function requestDataDeletionLink(email: string): Promise<PrivacyActionResult> {
+  const address = email.trim().toLowerCase();
+  if (!emailRegex.test(address)) {
+    return { success: false, message: 'Validation failed', errors: { email: 'Please provide a valid email address' } };
+  }
+
+  try {
+    await requestDataDeletion(address);
+    sendEmailsAfterResponse();
+
+    return { success: true, message: `Check your inbox, we sent a confirmation link to ${address}` };
+  } catch (error) {
+    const { body } = toErrorBody(error);
+    return { success: false, message: body.message };
+  }
+}
+
+/**
+ * Delete the data of the email a confirmed data deletion link refers to
+ */
+export async function deleteDataByToken(token: string): Promise<PrivacyActionResult> {
+  const email = verifyDataDeletionToken(token);
+  if (!email) return { success: false, message: 'This link is invalid or has expired' };
+
+  try {
+    const { bookings, promoted, slugs } = await deleteAttendeeData(email);
+
+    if (slugs.length > 0) revalidateEvents(...slugs);
+    if (promoted > 0) sendEmailsAfterResponse();
+
+    return {
+      success: true,
+      message: `Deleted ${bookings} ${bookings === 1 ? 'booking' : 'bookings'} and every email we stored for ${email}`,
+    };
+  } catch (error) {
+    const { body } = toErrorBody(error);
+    return { success: false, message: body.message };
+  }
+}
@@ -0,0 +1,96 @@
+// Agenda sessions: types and conversions shared by the form, the timeline and the migration
+
+import { normalizeTime } from '@/lib/event-rules';
+
+/**
+ * A session as edited in the Create Event form, every value a string so inputs can be bound directly
+ */
+export interface AgendaSessionValues {
+  title: string;
+  description: string;
+  date: string; // YYYY-MM-DD, only for multi-day events
+  startTime: string; // HH:MM in the event's time zone
+  endTime: string;
+  track: string;
+  room: string;
+  speakerIds: string[];
+}
+
+/**
+ * Speaker as shown next to a session
+ */
+export interface SpeakerItem {
+  id: string;
+  name: string;
+  bio?: string;
+  avatar?: string;
+  links: { label: string; url: string }[];
+}
+
+/**
+ * Session as rendered by the timeline, with its speakers resolved
+ */
+export interface AgendaItem {
+  id: string;
+  title: string;
+  description?: string;
+  date?: string;
+  startTime?: string;
+  endTime?: string;
+  track?: string;
+  room?: string;
+  speakers: SpeakerItem[];
+}
+
+export const emptySession: AgendaSessionValues = {
+  title: '',
+  description: '',
+  date: '',
+  startTime: '',
+  endTime: '',
+  track: '',
+  room: '',
+  speakerIds: [],
+};
+
+/**
+ * Convert form sessions to documents for the event schema, leaving out empty values
+ */
+export function toAgendaSessions(sessions: AgendaSessionValues[]) {
+  return sessions.map((session) => ({
+    title: session.title.trim(),
+    description: session.description.trim() || undefined,
+    date: session.date || undefined,
+    startTime: (session.startTime && normalizeTime(session.startTime)) || undefined,
+    endTime: (session.endTime && normalizeTime(session.endTime)) || undefined,
+    track: session.track.trim() || undefined,
+    room: session.room.trim() || undefined,
+    speakerIds: session.speakerIds,
+  }));
+}
+
+const TIME = String.raw`\d{1,2}:\d{2}(?:\s*[ap]\.?m\.?)?`;
+
+/**
+ * Parse an agenda item saved before sessions were structured, e.g. "09:00 AM - 10:00 AM | Keynote"
+ * Items without a leading time become a session with just a title
+ */
+export function parseAgendaItem(item: string): { title: string; startTime?: string; endTime?: string } {
+  const match = item.trim().match(new RegExp(`^(${TIME})(?:\\s*[-–]\\s*(${TIME}))?\\s*[|:–-]?\\s*(.+)$`, 'i'));
+  const startTime = match && normalizeTime(match[1]);
+  if (!match || !startTime) return { title: item.trim() };
+
+  return {
+    title: match[3].trim(),
+    startTime,
+    endTime: (match[2] && normalizeTime(match[2])) || undefined,
+  };
+}
+
+/**
+ * Format when a session runs, e.g. "09:00 – 10:30"
+ */
+export function formatSessionTime({ startTime, endTime }: Pick<AgendaItem, 'startTime' | 'endTime'>): string | null {
+  if (!startTime) return null;
+  return endTime ? `${startTime} – ${endTime}` : startTime;
+}
@@ -0,0 +1,68 @@
+import posthog from 'posthog-js';
+
+import { readConsent, writeConsent, type ConsentStatus } from '@/lib/consent';
+
+// Browser-side analytics on top of the posthog-js instance set up in instrumentation-client.ts
+// Nothing is sent until the visitor has granted consent
+
+export interface ClientAnalyticsEvents {
+  explore_clicked: Record<string, never>;
+  event_card_clicked: {
+    slug: string;
+    position: number; // 1-based place of the card in its list
+    list: 'featured' | 'search' | 'similar';
+  };
+  events_searched: {
+    q: string | null;
+    mode: string | null;
+    tags: string[];
+    location: string | null;
+    from: string | null;
+    to: string | null;
+    near: boolean; // Only whether a near-me search was used, never the coordinates
+  };
+  events_search_reset: Record<string, never>;
+  // Booking form funnel, in the order a visitor goes through it
+  booking_form_started: { slug: string; sold_out: boolean };
+  booking_form_submitted: { slug: string; sold_out: boolean };
+  booking_form_completed: { slug: string; waitlisted: boolean };
+  booking_form_failed: { slug: string; status: number | null }; // HTTP status, null for network errors
+}
+
+export type ClientAnalyticsEventName = keyof ClientAnalyticsEvents;
+
+/**
+ * Whether the visitor agreed to analytics
+ */
+export function hasAnalyticsConsent(): boolean {
+  return readConsent() === 'granted';
+}
+
+/**
+ * Capture an event in the browser, dropped unless the visitor has granted consent
+ * Never throws, analytics must not break the interaction that triggered it
+ */
+export function track<E extends ClientAnalyticsEventName>(event: E, properties: ClientAnalyticsEvents[E]): void {
+  if (!hasAnalyticsConsent()) return;
+
+  try {
+    posthog.capture(event, properties);
+  } catch (error) {
+    console.error(`❌ Failed to track ${event}:`, error);
+  }
+}
+
+/**
+ * Store the visitor's consent choice and start or stop capturing accordingly
+ */
+export function setAnalyticsConsent(status: ConsentStatus): void {
+  writeConsent(status);
+
+  if (status === 'granted') {
+    posthog.set_config({ persistence: 'localStorage+cookie' });
+    posthog.opt_in_capturing();
+  } else {
+    posthog.opt_out_capturing();
+    posthog.reset();
+  }
+}
@@ -0,0 +1,59 @@
+import type { IEvent } from '@/database';
+import type { EventMode } from '@/lib/event-rules';
+
+// Server-side analytics events and their properties
+// Property names are snake_case to match the events captured by posthog-js
+
+export interface AnalyticsEvents {
+  event_created: {
+    event_id: string;
+    slug: string;
+    mode: EventMode;
+    tags: string[];
+    capacity: number | null;
+  };
+  event_viewed: {
+    event_id: string;
+    slug: string;
+  };
+  booking_created: {
+    event_id: string;
+    slug: string;
+    waitlisted: boolean;
+  };
+  booking_cancelled: {
+    event_id: string;
+    booking_id: string;
+    cancelled_by: 'attendee' | 'organizer';
+    promoted: number; // Bookings moved off the waitlist into the freed seat
+  };
+  booking_duplicate_rejected: {
+    event_id: string;
+    slug: string;
+  };
+}
+
+export type AnalyticsEventName = keyof AnalyticsEvents;
+
+/**
+ * An event as handed to a transport
+ */
+export interface AnalyticsMessage<E extends AnalyticsEventName = AnalyticsEventName> {
+  event: E;
+  distinctId: string;
+  properties: AnalyticsEvents[E] & { $process_person_profile?: boolean };
+  timestamp: Date;
+}
+
+/**
+ * Properties of an event_created event for a newly saved event
+ */
+export function eventCreatedProperties(event: IEvent): AnalyticsEvents['event_created'] {
+  return {
+    event_id: String(event._id),
+    slug: event.slug,
+    mode: event.mode,
+    tags: event.tags,
+    capacity: event.capacity ?? null,
+  };
+}
@@ -0,0 +1,89 @@
+import { createHash } from 'crypto';
+import { cookies } from 'next/headers';
+import { after } from 'next/server';
+
+import { CONSENT_COOKIE, parseConsent } from '@/lib/consent';
+
+import type { AnalyticsEventName, AnalyticsEvents } from './events';
+import { getTransport } from './transport';
+
+export { eventCreatedProperties, type AnalyticsEventName, type AnalyticsEvents, type AnalyticsMessage } from './events';
+export {
+  createMemoryTransport,
+  createNoopTransport,
+  getTransport,
+  setTransport,
+  type AnalyticsTransport,
+} from './transport';
+
+/**
+ * Distinct id for events without a known person, sent as personless events
+ */
+const ANONYMOUS_ID = 'anonymous';
+
+/**
+ * Distinct id for an attendee, a hash so PostHog never receives their email
+ */
+export function emailDistinctId(email: string): string {
+  return `email:${createHash('sha256').update(email.trim().toLowerCase()).digest('hex')}`;
+}
+
+/**
+ * Send the captured events after the response has been sent
+ * Outside a request (e.g. in scripts) call flushAnalytics() before exiting instead
+ */
+function flushAfterResponse(): void {
+  try {
+    after(flushAnalytics);
+  } catch {
+    // Not inside a request
+  }
+}
+
+/**
+ * Whether the visitor behind the current request granted analytics consent, see lib/consent.ts
+ * Outside a request (e.g. in scripts) there is no visitor to ask
+ */
+async function hasConsent(): Promise<boolean> {
+  try {
+    return parseConsent((await cookies()).get(CONSENT_COOKIE)?.value) === 'granted';
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Capture a server-side analytics event
+ * Without the visitor's consent the event is still counted, but sent anonymously so it isn't tied to them
+ * Never throws, analytics must not break the request that triggered it
+ * @param distinctId - User id or emailDistinctId(), leave empty for anonymous events
+ */
+export function capture<E extends AnalyticsEventName>(
+  event: E,
+  properties: AnalyticsEvents[E],
+  distinctId?: string
+): void {
+  hasConsent()
+    .then((consented) => {
+      const id = consented ? distinctId : undefined;
+      getTransport().capture({
+        event,
+        distinctId: id ?? ANONYMOUS_ID,
+        properties: id ? properties : { ...properties, $process_person_profile: false },
+        timestamp: new Date(),
+      });
+      flushAfterResponse();
+    })
+    .catch((error) => console.error(`❌ Failed to capture ${event}:`, error));
+}
+
+/**
+ * Send every captured event now
+ */
+export async function flushAnalytics(): Promise<void> {
+  try {
+    await getTransport().flush();
+  } catch (error) {
+    console.error('❌ Failed to flush analytics:', error);
+  }
+}
@@ -0,0 +1,112 @@
+import { PostHog } from 'posthog-node';
+
+import type { AnalyticsMessage } from './events';
+
+/**
+ * Something that can deliver analytics events, selected with the ANALYTICS_TRANSPORT environment variable
+ */
+export interface AnalyticsTransport {
+  name: string;
+  capture(message: AnalyticsMessage): void;
+  flush(): Promise<void>; // Send everything captured so far
+}
+
+/**
+ * Send events to PostHog, batched until flush is called
+ */
+export function createPostHogTransport(apiKey: string, host: string): AnalyticsTransport {
+  const client = new PostHog(apiKey, { host });
+
+  return {
+    name: 'posthog',
+    capture({ event, distinctId, properties, timestamp }) {
+      client.capture({ event, distinctId, properties, timestamp });
+    },
+    flush: () => client.flush(),
+  };
+}
+
+/**
+ * Keep events in memory, for tests and offline development
+ */
+export function createMemoryTransport(): AnalyticsTransport & { events: AnalyticsMessage[] } {
+  const events: AnalyticsMessage[] = [];
+
+  return {
+    name: 'memory',
+    events,
+    capture(message) {
+      events.push(message);
+    },
+    async flush() {},
+  };
+}
+
+/**
+ * Log each event instead of sending it
+ */
+export function createConsoleTransport(): AnalyticsTransport {
+  return {
+    name: 'console',
+    capture({ event, distinctId, properties }) {
+      console.log(`📊 ${event} (${distinctId})`, properties);
+    },
+    async flush() {},
+  };
+}
+
+/**
+ * Drop every event, when analytics aren't configured
+ */
+export function createNoopTransport(): AnalyticsTransport {
+  return {
+    name: 'none',
+    capture() {},
+    async flush() {},
+  };
+}
+
+let transport: AnalyticsTransport | undefined;
+
+/**
+ * Get the transport configured by ANALYTICS_TRANSPORT (posthog, console, memory or none)
+ * Defaults to posthog when NEXT_PUBLIC_POSTHOG_KEY is set, otherwise to console in development and none elsewhere
+ * Memory is only used when asked for, it keeps every event for the lifetime of the process
+ */
+export function getTransport(): AnalyticsTransport {
+  if (transport) return transport;
+
+  const apiKey = process.env.NEXT_PUBLIC_POSTHOG_KEY;
+  const kind =
+    process.env.ANALYTICS_TRANSPORT ??
+    (apiKey ? 'posthog' : process.env.NODE_ENV === 'development' ? 'console' : 'none');
+
+  switch (kind) {
+    case 'posthog':
+      if (!apiKey) {
+        throw new Error('Please define the NEXT_PUBLIC_POSTHOG_KEY environment variable inside .env');
+      }
+      transport = createPostHogTransport(apiKey, process.env.POSTHOG_HOST ?? 'https://us.i.posthog.com');
+      break;
+    case 'console':
+      transport = createConsoleTransport();
+      break;
+    case 'memory':
+      transport = createMemoryTransport();
+      break;
+    case 'none':
+      transport = createNoopTransport();
+      break;
+    default:
+      throw new Error(`Unknown ANALYTICS_TRANSPORT "${kind}", expected posthog, console, memory or none`);
+  }
+
+  return transport;
+}
+
+/**
+ * Replace the configured transport, e.g. with a memory transport in tests
+ */
+export function setTransport(next: AnalyticsTransport | undefined): void {
+  transport = next;
+}
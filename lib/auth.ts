@@ -0,0 +1,193 @@
+import { createHash, randomBytes } from 'crypto';
+import { cache } from 'react';
+import { cookies } from 'next/headers';
+
+import connectToDatabase from '@/lib/mongoose';
+import { Session, User, type IEvent, type IUser, type UserRole } from '@/database';
+import { enqueueEmail } from '@/lib/email/outbox';
+import { ApiError, isDuplicateKeyError } from '@/lib/errors';
+import { absoluteUrl } from '@/lib/site';
+import { signToken, verifyToken } from '@/lib/tokens';
+
+// Passwordless accounts: users sign in with a link emailed to them, sessions are stored in MongoDB
+
+export const SESSION_COOKIE = 'devevent_session';
+
+const SESSION_TTL_DAYS = 30;
+export const SIGN_IN_LINK_TTL_MINUTES = 15;
+
+/**
+ * The signed-in user, safe to send to the browser
+ */
+export interface SessionUser {
+  id: string;
+  email: string;
+  name?: string;
+  role: UserRole;
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Emails listed in ADMIN_EMAILS (comma-separated) are made admins when they sign in, and stop being admins once
+ * they're taken off the list
+ */
+function isAdminEmail(email: string): boolean {
+  return (process.env.ADMIN_EMAILS ?? '')
+    .split(',')
+    .map((entry) => entry.trim().toLowerCase())
+    .includes(email);
+}
+
+/**
+ * Only redirect to paths on this site after signing in
+ */
+export function safeRedirectPath(next: string | null | undefined): string {
+  return next && next.startsWith('/') && !next.startsWith('//') ? next : '/';
+}
+
+/**
+ * Build the link that signs the user in, valid for SIGN_IN_LINK_TTL_MINUTES
+ * It opens a page that signs in on a click, so link scanners in mail clients don't use it up
+ * @param next - Path to go to after signing in
+ */
+export function createSignInUrl(email: string, next?: string): string {
+  const token = signToken({
+    purpose: 'sign-in',
+    subject: email,
+    expiresAt: new Date(Date.now() + SIGN_IN_LINK_TTL_MINUTES * 60000),
+  });
+  const query = new URLSearchParams({ token, next: safeRedirectPath(next) });
+
+  return absoluteUrl(`/sign-in/confirm?${query}`);
+}
+
+/**
+ * Email a sign-in link was sent to, without redeeming it
+ * @returns string | null - Null when the token is invalid or expired
+ */
+export function verifySignInToken(token: string): string | null {
+  return verifyToken(token, 'sign-in')?.subject ?? null;
+}
+
+/**
+ * Queue a sign-in email, at most one per email per minute
+ * The link itself is signed when the email is sent, so it never sits in the outbox
+ */
+export async function requestSignInLink(email: string, next?: string): Promise<void> {
+  const minute = Math.floor(Date.now() / 60000);
+
+  await enqueueEmail({ key: `sign-in:${email}:${minute}`, template: 'sign-in', data: { email, next } });
+}
+
+/**
+ * Redeem a sign-in token, creating the user on their first sign-in
+ * Each link works once: signing in invalidates every link issued before
+ * @returns IUser | null - Null when the token is invalid, expired or already used
+ */
+export async function signInWithToken(token: string): Promise<IUser | null> {
+  const claims = verifyToken(token, 'sign-in');
+  if (!claims) return null;
+
+  await connectToDatabase();
+
+  const email = claims.subject;
+
+  try {
+    return await User.findOneAndUpdate(
+      { email, $or: [{ lastSignInAt: null }, { lastSignInAt: { $lt: claims.issuedAt } }] },
+      {
+        $set: { lastSignInAt: new Date(), role: isAdminEmail(email) ? 'admin' : 'organizer' },
+        $setOnInsert: { email },
+      },
+      { upsert: true, new: true, runValidators: true }
+    );
+  } catch (error) {
+    // The user exists but the filter didn't match: the link was already used
+    if (isDuplicateKeyError(error)) return null;
+    throw error;
+  }
+}
+
+/**
+ * Start a session for the user and set the session cookie
+ */
+export async function createSession(userId: IUser['_id']): Promise<void> {
+  await connectToDatabase();
+
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + SESSION_TTL_DAYS * 24 * 60 * 60000);
+  await Session.create({ tokenHash: hashToken(token), userId, expiresAt });
+
+  (await cookies()).set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    expires: expiresAt,
+  });
+}
+
+/**
+ * End the current session and clear the session cookie
+ */
+export async function destroySession(): Promise<void> {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(SESSION_COOKIE)?.value;
+
+  if (token) {
+    await connectToDatabase();
+    await Session.deleteOne({ tokenHash: hashToken(token) });
+  }
+  cookieStore.delete(SESSION_COOKIE);
+}
+
+/**
+ * Get the signed-in user from the session cookie, once per request
+ * Reading cookies makes the calling page dynamic, so static pages load the user in the browser instead
+ */
+export const getCurrentUser = cache(async (): Promise<SessionUser | null> => {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  if (!token) return null;
+
+  await connectToDatabase();
+
+  const session = await Session.findOne({ tokenHash: hashToken(token), expiresAt: { $gt: new Date() } });
+  if (!session) return null;
+
+  const user = await User.findById(session.userId).lean<IUser>();
+  if (!user) return null;
+
+  return { id: String(user._id), email: user.email, name: user.name, role: user.role };
+});
+
+/**
+ * Get the signed-in user
+ * @throws ApiError - 401 when nobody is signed in
+ */
+export async function requireUser(): Promise<SessionUser> {
+  const user = await getCurrentUser();
+  if (!user) throw new ApiError(401, 'Please sign in to continue');
+
+  return user;
+}
+
+/**
+ * Check whether a user may edit or delete an event: its owner or an admin
+ */
+export function canManageEvent(user: SessionUser, event: Pick<IEvent, 'ownerId'>): boolean {
+  return user.role === 'admin' || (!!event.ownerId && String(event.ownerId) === user.id);
+}
+
+/**
+ * Make sure the signed-in user may edit or delete an event
+ * @throws ApiError - 401 when nobody is signed in, 403 when the user doesn't own the event
+ */
+export async function requireEventManager(event: Pick<IEvent, 'ownerId'>): Promise<SessionUser> {
+  const user = await requireUser();
+  if (!canManageEvent(user, event)) throw new ApiError(403, 'Only the organizer of this event can do that');
+
+  return user;
+}
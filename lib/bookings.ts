@@ -0,0 +1,374 @@
+import { Types } from 'mongoose';
+
+import connectToDatabase from '@/lib/mongoose';
+import { Booking, Email, Event, type IBooking, type IEvent } from '@/database';
+import { enqueueEmail } from '@/lib/email/outbox';
+import { absoluteUrl } from '@/lib/site';
+import { resolveEventSchedule } from '@/lib/timezone';
+import { signToken, verifyToken } from '@/lib/tokens';
+
+/**
+ * Message shown when the (eventId, email) unique index rejects a booking
+ */
+export const ALREADY_REGISTERED_MESSAGE = "You're already registered for this event";
+
+/**
+ * How long manage links keep working after the event has ended
+ */
+const MANAGE_LINK_GRACE_DAYS = 7;
+
+/**
+ * How long before the event starts attendees get a reminder
+ */
+export const REMINDER_LEAD_HOURS = 24;
+
+/**
+ * Emails sent to attendees, rendered by the builders in lib/email/booking-emails.ts
+ */
+export type BookingEmailTemplate =
+  | 'booking-confirmation'
+  | 'booking-promoted'
+  | 'booking-reminder'
+  | 'organizer-message'
+  | 'event-cancelled';
+
+/**
+ * A message from an event's organizer to its attendees
+ */
+export interface AttendeeMessage {
+  requestId: string; // Generated by the form, so submitting the same message twice only sends it once
+  subject: string;
+  message: string;
+  includeWaitlist: boolean;
+}
+
+export interface BookingResult {
+  booking: IBooking;
+  waitlisted: boolean;
+  position: number | null; // 1-based place on the waitlist, null for confirmed bookings
+}
+
+/**
+ * Count the confirmed bookings made for an event
+ * @returns number - Number of people who booked the event, not counting the waitlist
+ */
+export async function getBookingCount(eventId: Types.ObjectId): Promise<number> {
+  await connectToDatabase();
+
+  return Booking.countDocuments({ eventId, status: 'active', waitlisted: { $ne: true } });
+}
+
+/**
+ * UTC start and end of an event
+ * @returns null if the event doesn't exist
+ */
+async function getEventSchedule(eventId: Types.ObjectId) {
+  const event = await Event.findById(eventId)
+    .select('date time timezone endDate endTime startsAt endsAt')
+    .lean<IEvent>();
+
+  return event ? resolveEventSchedule(event) : null;
+}
+
+/**
+ * Queue an email about a booking
+ * The key makes it idempotent, so retried requests never queue the same email twice
+ * Failures are logged rather than thrown, the booking itself already succeeded
+ */
+async function queueBookingEmail(
+  template: BookingEmailTemplate,
+  booking: Pick<IBooking, '_id' | 'email'>,
+  sendAfter?: Date
+): Promise<void> {
+  // Confirmations go to whoever holds the booking, so a transfer sends a new one
+  const key =
+    template === 'booking-confirmation' ? `${template}:${booking._id}:${booking.email}` : `${template}:${booking._id}`;
+
+  try {
+    await enqueueEmail({ key, template, data: { bookingId: String(booking._id), email: booking.email }, sendAfter });
+  } catch (error) {
+    console.error(`❌ Failed to queue ${template} email for booking ${booking._id}:`, error);
+  }
+}
+
+/**
+ * Take one seat at an event in a single atomic update, so concurrent requests can't overbook
+ * @returns boolean - False when the event is full
+ */
+async function reserveSeat(eventId: Types.ObjectId): Promise<boolean> {
+  const result = await Event.updateOne(
+    {
+      _id: eventId,
+      $or: [{ capacity: null }, { $expr: { $lt: [{ $ifNull: ['$bookedCount', 0] }, '$capacity'] } }],
+    },
+    { $inc: { bookedCount: 1 } }
+  );
+
+  return result.modifiedCount === 1;
+}
+
+/**
+ * Give a seat back to the event
+ */
+async function releaseSeat(eventId: Types.ObjectId): Promise<void> {
+  await Event.updateOne({ _id: eventId, bookedCount: { $gt: 0 } }, { $inc: { bookedCount: -1 } });
+}
+
+/**
+ * Place of a booking on its event's waitlist
+ * @returns number - 1 for the next person to be promoted
+ */
+export async function getWaitlistPosition(booking: Pick<IBooking, 'eventId' | 'createdAt'>): Promise<number> {
+  await connectToDatabase();
+
+  return Booking.countDocuments({
+    eventId: booking.eventId,
+    status: 'active',
+    waitlisted: true,
+    createdAt: { $lte: booking.createdAt },
+  });
+}
+
+/**
+ * Book a spot at an event, or join its waitlist once it's full
+ * @throws Duplicate key error when the email is already registered for the event
+ */
+export async function createBooking(eventId: Types.ObjectId, email: string): Promise<BookingResult> {
+  await connectToDatabase();
+
+  const reserved = await reserveSeat(eventId);
+
+  let booking: IBooking;
+  try {
+    booking = await Booking.create({ eventId, email, waitlisted: !reserved });
+  } catch (error) {
+    // The booking wasn't saved (e.g. already registered), so don't keep its seat
+    if (reserved) await releaseSeat(eventId);
+    throw error;
+  }
+
+  await queueBookingEmail('booking-confirmation', booking);
+
+  // Bookings made less than a day ahead don't need a reminder on top of the confirmation
+  const schedule = await getEventSchedule(eventId);
+  const remindAt = schedule && new Date(schedule.startsAt.getTime() - REMINDER_LEAD_HOURS * 60 * 60000);
+  if (remindAt && remindAt.getTime() > Date.now()) {
+    await queueBookingEmail('booking-reminder', booking, remindAt);
+  }
+
+  return {
+    booking,
+    waitlisted: booking.waitlisted,
+    position: booking.waitlisted ? await getWaitlistPosition(booking) : null,
+  };
+}
+
+/**
+ * Move the reminders of an event's bookings to REMINDER_LEAD_HOURS before its new start
+ * Call after the event was rescheduled, reminders due already go out right away
+ */
+export async function rescheduleReminders(eventId: Types.ObjectId): Promise<void> {
+  await connectToDatabase();
+
+  const schedule = await getEventSchedule(eventId);
+  if (!schedule) return;
+
+  const remindAt = new Date(schedule.startsAt.getTime() - REMINDER_LEAD_HOURS * 60 * 60000);
+  const bookings = await Booking.find({ eventId, status: 'active' }).select('_id email');
+
+  const bookingIds = bookings.map(({ _id }) => String(_id));
+  await Email.updateMany(
+    { template: 'booking-reminder', status: 'pending', 'data.bookingId': { $in: bookingIds } },
+    { $set: { sendAfter: new Date(Math.max(remindAt.getTime(), Date.now())) } }
+  );
+
+  // Bookings made less than a day before the old start get a reminder when the event moved further out
+  if (remindAt.getTime() > Date.now()) {
+    for (const booking of bookings) {
+      await queueBookingEmail('booking-reminder', booking, remindAt);
+    }
+  }
+}
+
+/**
+ * Move people off the waitlist, oldest first, while the event has free seats
+ * @returns IBooking[] - The promoted bookings
+ */
+export async function fillFromWaitlist(eventId: Types.ObjectId): Promise<IBooking[]> {
+  await connectToDatabase();
+
+  const promoted: IBooking[] = [];
+
+  while (await Booking.exists({ eventId, status: 'active', waitlisted: true })) {
+    if (!(await reserveSeat(eventId))) break;
+
+    const booking = await Booking.findOneAndUpdate(
+      { eventId, status: 'active', waitlisted: true },
+      { $set: { waitlisted: false, promotedAt: new Date() } },
+      { sort: { createdAt: 1 }, new: true }
+    );
+
+    // Someone else promoted the last waitlisted booking in the meantime
+    if (!booking) {
+      await releaseSeat(eventId);
+      break;
+    }
+
+    promoted.push(booking);
+    await queueBookingEmail('booking-promoted', booking);
+  }
+
+  return promoted;
+}
+
+/**
+ * Recount the confirmed bookings of an event, e.g. after its capacity was set for the first time
+ */
+export async function syncBookedCount(eventId: Types.ObjectId): Promise<void> {
+  const bookedCount = await getBookingCount(eventId);
+  await Event.updateOne({ _id: eventId }, { $set: { bookedCount } });
+}
+
+/**
+ * Cancel a booking and hand its seat to the first person on the waitlist
+ * The booking is kept with status "cancelled" so the audit history stays intact
+ * @returns The cancelled booking and the bookings promoted in its place, or null if there is no active booking
+ */
+export async function cancelBooking(
+  bookingId: Types.ObjectId
+): Promise<{ booking: IBooking; promoted: IBooking[] } | null> {
+  await connectToDatabase();
+
+  // Only an active booking can be cancelled, so concurrent cancels release the seat once
+  const booking = await Booking.findOneAndUpdate(
+    { _id: bookingId, status: 'active' },
+    { $set: { status: 'cancelled', cancelledAt: new Date() } },
+    { new: true }
+  );
+  if (!booking) return null;
+
+  if (booking.waitlisted) {
+    return { booking, promoted: [] };
+  }
+
+  await releaseSeat(booking.eventId);
+  const promoted = await fillFromWaitlist(booking.eventId);
+
+  return { booking, promoted };
+}
+
+/**
+ * Cancel every booking of an event date that was called off and let the attendees know
+ * Waitlisted bookings are cancelled too, there is no seat left to wait for
+ * @returns number - How many bookings were cancelled
+ */
+export async function cancelEventBookings(eventId: Types.ObjectId): Promise<number> {
+  await connectToDatabase();
+
+  const bookings = await Booking.find({ eventId, status: 'active' }).select('_id email');
+  await Booking.updateMany(
+    { _id: { $in: bookings.map(({ _id }) => _id) }, status: 'active' },
+    { $set: { status: 'cancelled', cancelledAt: new Date() } }
+  );
+  await syncBookedCount(eventId);
+
+  for (const booking of bookings) {
+    await queueBookingEmail('event-cancelled', booking);
+  }
+
+  return bookings.length;
+}
+
+/**
+ * Delete the bookings of events that are being deleted, together with their emails still waiting in the outbox
+ * so no reminder or confirmation goes out for an event that is gone
+ */
+export async function deleteEventBookings(eventIds: Types.ObjectId[]): Promise<void> {
+  await connectToDatabase();
+
+  const bookingIds = await Booking.find({ eventId: { $in: eventIds } }).distinct('_id');
+  await Email.deleteMany({ status: 'pending', 'data.bookingId': { $in: bookingIds.map(String) } });
+  await Booking.deleteMany({ eventId: { $in: eventIds } });
+}
+
+/**
+ * Hand an active booking over to another email, keeping its seat or place on the waitlist
+ * @returns The updated booking, or null if there is no active booking
+ * @throws Duplicate key error when the new email is already registered for the event
+ */
+export async function transferBooking(bookingId: Types.ObjectId, email: string): Promise<IBooking | null> {
+  await connectToDatabase();
+
+  const booking = await Booking.findOne({ _id: bookingId, status: 'active' });
+  if (!booking) return null;
+
+  const from = booking.email;
+  booking.email = email;
+  booking.transfers.push({ from, to: booking.email, at: new Date() });
+  await booking.save();
+
+  // The new attendee gets their own confirmation and manage link, the reminder follows the booking
+  await queueBookingEmail('booking-confirmation', booking);
+
+  return booking;
+}
+
+/**
+ * Build the magic link that lets an attendee view, cancel or transfer their booking without logging in
+ * The link expires MANAGE_LINK_GRACE_DAYS after the event ends, and stops working once the booking is transferred
+ */
+export async function getManageUrl(booking: Pick<IBooking, '_id' | 'eventId' | 'email'>): Promise<string> {
+  await connectToDatabase();
+
+  const endsAt = (await getEventSchedule(booking.eventId))?.endsAt.getTime() ?? Date.now();
+
+  const token = signToken({
+    purpose: 'booking',
+    subject: String(booking._id),
+    email: booking.email,
+    expiresAt: new Date(Math.max(endsAt, Date.now()) + MANAGE_LINK_GRACE_DAYS * 24 * 60 * 60000),
+  });
+
+  return absoluteUrl(`/bookings/${token}`);
+}
+
+/**
+ * Find the booking a manage link refers to
+ * @returns IBooking | null - Null when the token is invalid, expired or was issued to a previous email
+ */
+export async function findBookingByToken(token: string): Promise<IBooking | null> {
+  const claims = verifyToken(token, 'booking');
+  if (!claims || !Types.ObjectId.isValid(claims.subject)) return null;
+
+  await connectToDatabase();
+
+  const booking = await Booking.findById(claims.subject);
+  if (!booking || booking.email !== claims.email) return null;
+
+  return booking;
+}
+
+/**
+ * Queue an organizer's message for every active attendee of an event
+ * @returns number - How many emails were queued, excluding ones already queued for the same request
+ */
+export async function emailAttendees(
+  eventId: Types.ObjectId,
+  { requestId, subject, message, includeWaitlist }: AttendeeMessage
+): Promise<number> {
+  await connectToDatabase();
+
+  const filter = { eventId, status: 'active', ...(!includeWaitlist && { waitlisted: { $ne: true } }) };
+  let queued = 0;
+
+  for await (const booking of Booking.find(filter).select('_id email').cursor()) {
+    const added = await enqueueEmail({
+      key: `organizer-message:${requestId}:${booking._id}`,
+      template: 'organizer-message',
+      data: { bookingId: String(booking._id), email: booking.email, subject, message },
+    });
+    if (added) queued++;
+  }
+
+  return queued;
+}
@@ -0,0 +1,55 @@
+// Cookie consent, stored in a first-party cookie so both the browser and the server can read it
+
+/**
+ * Cookie holding the visitor's choice, absent until they make one
+ */
+export const CONSENT_COOKIE = 'devevent_consent';
+
+/**
+ * How long the choice is remembered before the visitor is asked again
+ */
+const CONSENT_MAX_AGE_DAYS = 180;
+
+export const CONSENT_STATUSES = ['granted', 'denied'] as const;
+
+export type ConsentStatus = (typeof CONSENT_STATUSES)[number];
+
+const listeners = new Set<() => void>();
+
+/**
+ * Get notified when the visitor changes their choice, in the shape useSyncExternalStore expects
+ * @returns Function that stops the notifications
+ */
+export function subscribeToConsent(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Parse the consent cookie's value
+ * @returns null when the visitor hasn't chosen yet
+ */
+export function parseConsent(value: string | undefined): ConsentStatus | null {
+  return CONSENT_STATUSES.includes(value as ConsentStatus) ? (value as ConsentStatus) : null;
+}
+
+/**
+ * Read the visitor's choice in the browser
+ */
+export function readConsent(): ConsentStatus | null {
+  if (typeof document === 'undefined') return null;
+
+  const cookie = document.cookie.split('; ').find((entry) => entry.startsWith(`${CONSENT_COOKIE}=`));
+  return parseConsent(cookie?.slice(CONSENT_COOKIE.length + 1));
+}
+
+/**
+ * Remember the visitor's choice in the browser
+ */
+export function writeConsent(status: ConsentStatus): void {
+  const maxAge = CONSENT_MAX_AGE_DAYS * 24 * 60 * 60;
+  const secure = window.location.protocol === 'https:' ? '; Secure' : '';
+
+  document.cookie = `${CONSENT_COOKIE}=${status}; Path=/; Max-Age=${maxAge}; SameSite=Lax${secure}`;
+  listeners.forEach((listener) => listener());
+}
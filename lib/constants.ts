@@ -1,17 +1,45 @@
 // Centralized constants for the app
-// Events can be imported and fed directly into the EventCard component
-// EventCard expects: { title, image, slug, location, date, time }
+// Events are the fixtures loaded into the database by scripts/seed.ts
+// EventCard expects an EventItem: { title, image, slug, location, date, time, timezone, startsAt, endsAt, ... }
 
-export type EventItem = {
-  title: string;
-  image: string; // path under public/images (e.g., "/images/nextjs-conf.jpg")
-  slug: string; // URL-friendly identifier
-  location: string; // City, Country or "Online"
-  date: string; // Human-friendly date (kept as string for display)
-  time: string; // Local start time (kept as string for display)
+import type { IEvent } from '@/database';
+
+/**
+ * Plain JSON shape of a document, dates become ISO strings once serialized
+ */
+export type Serialized<T> = { [K in keyof T]: T[K] extends Date ? string : T[K] };
+
+/**
+ * Card-sized view of an event, derived from IEvent so the two can't drift apart
+ * - image: URL or path under public/images (e.g., "/images/nextjs-conf.jpg")
+ * - location: City, Country or "Online"
+ * - date/time: local to the event's IANA timezone, startsAt/endsAt are the UTC instants
+ */
+export type EventItem = Serialized<
+  Pick<
+    IEvent,
+    | 'title'
+    | 'image'
+    | 'slug'
+    | 'location'
+    | 'date'
+    | 'time'
+    | 'timezone'
+    | 'startsAt'
+    | 'endsAt'
+    | 'capacity'
+    | 'bookedCount'
+  >
+> & {
+  recurring: boolean; // Occurrence of a series, cards show it as the series' next date
 };
 
-export const events: EventItem[] = [
+/**
+ * Seed entry for an event, with a human-friendly date that the seed script parses
+ */
+export type EventSeedItem = Omit<EventItem, 'startsAt' | 'endsAt' | 'bookedCount' | 'recurring'>;
+
+export const events: EventSeedItem[] = [
   {
     title: 'AWS re:Invent 2025',
     image: '/images/event1.png',
@@ -19,6 +47,7 @@ export const events: EventItem[] = [
     location: 'Las Vegas, USA',
     date: 'Dec 1–5, 2025',
     time: '09:00',
+    timezone: 'America/Los_Angeles',
   },
   {
     title: 'KubeCon + CloudNativeCon Europe 2026',
@@ -27,6 +56,7 @@ export const events: EventItem[] = [
     location: 'Vienna, Austria',
     date: 'Mar 31–Apr 3, 2026',
     time: '09:00',
+    timezone: 'Europe/Vienna',
   },
   {
     title: 'Google I/O 2026',
@@ -35,6 +65,7 @@ export const events: EventItem[] = [
     location: 'Mountain View, USA + Online',
     date: 'May 2026 (TBA)',
     time: '10:00',
+    timezone: 'America/Los_Angeles',
   },
   {
     title: 'Microsoft Build 2026',
@@ -43,6 +74,7 @@ export const events: EventItem[] = [
     location: 'Seattle, USA + Online',
     date: 'May 2026 (TBA)',
     time: '09:00',
+    timezone: 'America/Los_Angeles',
   },
   {
     title: 'WWDC 2026',
@@ -51,6 +83,7 @@ export const events: EventItem[] = [
     location: 'Cupertino, USA + Online',
     date: 'June 2026 (TBA)',
     time: '10:00',
+    timezone: 'America/Los_Angeles',
   },
   {
     title: 'Next.js Conf 2026',
@@ -59,6 +92,7 @@ export const events: EventItem[] = [
     location: 'Online',
     date: 'Oct 2026 (TBA)',
     time: '09:00',
+    timezone: 'America/Los_Angeles',
   },
   {
     title: 'React Summit 2026',
@@ -67,6 +101,7 @@ export const events: EventItem[] = [
     location: 'Amsterdam, Netherlands + Online',
     date: 'June 2026 (TBA)',
     time: '09:00',
+    timezone: 'Europe/Amsterdam',
   },
   {
     title: 'JSConf Budapest 2026',
@@ -75,6 +110,7 @@ export const events: EventItem[] = [
     location: 'Budapest, Hungary',
     date: 'Sept 2026 (TBA)',
     time: '09:30',
+    timezone: 'Europe/Budapest',
   },
   {
     title: 'ETHGlobal Hackathon: San Francisco 2026',
@@ -83,6 +119,8 @@ export const events: EventItem[] = [
     location: 'San Francisco, USA',
     date: 'Apr 24–26, 2026',
     time: '08:00',
+    timezone: 'America/Los_Angeles',
+    capacity: 800,
   },
   {
     title: 'NASA Space Apps Challenge 2026',
@@ -91,6 +129,7 @@ export const events: EventItem[] = [
     location: 'Global + Online',
     date: 'Oct 2026 (Weekend, TBA)',
     time: '09:00',
+    timezone: 'UTC',
   },
   {
     title: 'Open Source Summit North America 2026',
@@ -99,6 +138,7 @@ export const events: EventItem[] = [
     location: 'Vancouver, Canada',
     date: 'June 2026 (TBA)',
     time: '09:00',
+    timezone: 'America/Vancouver',
   },
   {
     title: 'FullStack Europe 2026',
@@ -107,5 +147,6 @@ export const events: EventItem[] = [
     location: 'Antwerp, Belgium',
     date: 'Oct 2026 (TBA)',
     time: '09:00',
+    timezone: 'Europe/Brussels',
   },
 ]
@@ -0,0 +1,237 @@
+import { Types, type FilterQuery } from 'mongoose';
+
+import connectToDatabase from '@/lib/mongoose';
+import { Booking, Event, type IBooking, type IEvent } from '@/database';
+import type { SessionUser } from '@/lib/auth';
+
+// Queries behind the organizer dashboard
+
+const EVENTS_PAGE_SIZE = 20;
+const ATTENDEES_PAGE_SIZE = 50;
+
+export const ATTENDEE_FILTERS = ['all', 'confirmed', 'waitlisted', 'cancelled'] as const;
+export type AttendeeFilter = (typeof ATTENDEE_FILTERS)[number];
+
+/**
+ * Booking totals of one event
+ */
+export interface BookingStats {
+  confirmed: number;
+  waitlisted: number;
+  cancelled: number;
+}
+
+export interface DashboardEvent {
+  event: IEvent;
+  stats: BookingStats;
+}
+
+/**
+ * Bookings made and cancelled on one day, with the number of active bookings at the end of it
+ */
+export interface BookingTimelineDay {
+  day: string; // YYYY-MM-DD in the event's time zone
+  booked: number;
+  cancelled: number;
+  total: number;
+}
+
+export interface AttendeePage {
+  attendees: IBooking[];
+  nextCursor: string | null;
+}
+
+const emptyStats = (): BookingStats => ({ confirmed: 0, waitlisted: 0, cancelled: 0 });
+
+/**
+ * Events a user can manage: their own, or every event for admins
+ */
+function managedEventsFilter(user: SessionUser): FilterQuery<IEvent> {
+  return user.role === 'admin' ? {} : { ownerId: new Types.ObjectId(user.id) };
+}
+
+/**
+ * Count the confirmed, waitlisted and cancelled bookings of each event in one aggregation over Booking.eventId
+ */
+export async function getBookingStats(eventIds: Types.ObjectId[]): Promise<Map<string, BookingStats>> {
+  await connectToDatabase();
+
+  const rows: ({ _id: Types.ObjectId } & BookingStats)[] = await Booking.aggregate([
+    { $match: { eventId: { $in: eventIds } } },
+    {
+      $group: {
+        _id: '$eventId',
+        cancelled: { $sum: { $cond: [{ $eq: ['$status', 'cancelled'] }, 1, 0] } },
+        waitlisted: {
+          $sum: { $cond: [{ $and: [{ $ne: ['$status', 'cancelled'] }, { $eq: ['$waitlisted', true] }] }, 1, 0] },
+        },
+        confirmed: {
+          $sum: { $cond: [{ $and: [{ $ne: ['$status', 'cancelled'] }, { $ne: ['$waitlisted', true] }] }, 1, 0] },
+        },
+      },
+    },
+  ]);
+
+  return new Map(rows.map(({ _id, ...stats }) => [String(_id), stats]));
+}
+
+/**
+ * One page of the events a user manages, newest first, with their booking totals
+ * @param page - 1-based page number
+ */
+export async function getDashboardEvents(
+  user: SessionUser,
+  page = 1
+): Promise<{ events: DashboardEvent[]; hasMore: boolean }> {
+  await connectToDatabase();
+
+  const events = await Event.find(managedEventsFilter(user))
+    .sort({ startsAt: -1, _id: -1 })
+    .skip((page - 1) * EVENTS_PAGE_SIZE)
+    .limit(EVENTS_PAGE_SIZE + 1)
+    .lean<IEvent[]>();
+
+  const hasMore = events.length > EVENTS_PAGE_SIZE;
+  const pageEvents = hasMore ? events.slice(0, EVENTS_PAGE_SIZE) : events;
+  const stats = await getBookingStats(pageEvents.map(({ _id }) => _id));
+
+  return {
+    events: pageEvents.map((event) => ({ event, stats: stats.get(String(event._id)) ?? emptyStats() })),
+    hasMore,
+  };
+}
+
+/**
+ * Bookings made and cancelled per day, for the booking count over time chart
+ */
+export async function getBookingTimeline(event: Pick<IEvent, '_id' | 'timezone'>): Promise<BookingTimelineDay[]> {
+  await connectToDatabase();
+
+  const timezone = event.timezone ?? 'UTC';
+  const byDay = (field: string) => [
+    { $group: { _id: { $dateToString: { format: '%Y-%m-%d', date: field, timezone } }, count: { $sum: 1 } } },
+  ];
+
+  type DayCount = { _id: string; count: number };
+  const [{ booked, cancelled }]: { booked: DayCount[]; cancelled: DayCount[] }[] = await Booking.aggregate([
+    { $match: { eventId: event._id } },
+    {
+      $facet: {
+        booked: byDay('$createdAt'),
+        cancelled: [{ $match: { status: 'cancelled', cancelledAt: { $ne: null } } }, ...byDay('$cancelledAt')],
+      },
+    },
+  ]);
+
+  const days = new Map<string, BookingTimelineDay>();
+  const dayOf = (day: string) => {
+    if (!days.has(day)) days.set(day, { day, booked: 0, cancelled: 0, total: 0 });
+    return days.get(day) as BookingTimelineDay;
+  };
+  booked.forEach(({ _id, count }) => (dayOf(_id).booked = count));
+  cancelled.forEach(({ _id, count }) => (dayOf(_id).cancelled = count));
+
+  let total = 0;
+  return [...days.values()]
+    .sort((a, b) => a.day.localeCompare(b.day))
+    .map((day) => ({ ...day, total: (total += day.booked - day.cancelled) }));
+}
+
+/**
+ * Filter the bookings of an event down to one attendee list
+ */
+export function attendeeFilter(eventId: Types.ObjectId, filter: AttendeeFilter): FilterQuery<IBooking> {
+  switch (filter) {
+    case 'confirmed':
+      return { eventId, status: 'active', waitlisted: { $ne: true } };
+    case 'waitlisted':
+      return { eventId, status: 'active', waitlisted: true };
+    case 'cancelled':
+      return { eventId, status: 'cancelled' };
+    default:
+      return { eventId };
+  }
+}
+
+function encodeCursor({ createdAt, _id }: Pick<IBooking, 'createdAt' | '_id'>): string {
+  return Buffer.from(JSON.stringify({ createdAt: new Date(createdAt).toISOString(), id: String(_id) })).toString(
+    'base64url'
+  );
+}
+
+function decodeCursor(cursor: string): { createdAt: Date; id: Types.ObjectId } | null {
+  try {
+    const { createdAt, id } = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    const date = new Date(createdAt);
+    if (Number.isNaN(date.getTime()) || !Types.ObjectId.isValid(id)) return null;
+    return { createdAt: date, id: new Types.ObjectId(id) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * One page of an event's attendees in booking order
+ * Uses cursor pagination on (createdAt, _id) so large events page as fast as small ones
+ */
+export async function getAttendees(
+  eventId: Types.ObjectId,
+  { filter = 'all', cursor }: { filter?: AttendeeFilter; cursor?: string } = {}
+): Promise<AttendeePage> {
+  await connectToDatabase();
+
+  const query = attendeeFilter(eventId, filter);
+  const position = cursor ? decodeCursor(cursor) : null;
+  if (position) {
+    query.$or = [
+      { createdAt: { $gt: position.createdAt } },
+      { createdAt: position.createdAt, _id: { $gt: position.id } },
+    ];
+  }
+
+  // Fetch one extra booking to know whether there is a next page
+  const bookings = await Booking.find(query)
+    .sort({ createdAt: 1, _id: 1 })
+    .limit(ATTENDEES_PAGE_SIZE + 1)
+    .lean<IBooking[]>();
+
+  const hasMore = bookings.length > ATTENDEES_PAGE_SIZE;
+  const attendees = hasMore ? bookings.slice(0, ATTENDEES_PAGE_SIZE) : bookings;
+
+  return { attendees, nextCursor: hasMore ? encodeCursor(attendees[attendees.length - 1]) : null };
+}
+
+/**
+ * Status of a booking as shown to organizers
+ */
+export function attendeeStatus(booking: Pick<IBooking, 'status' | 'waitlisted'>): Exclude<AttendeeFilter, 'all'> {
+  if (booking.status === 'cancelled') return 'cancelled';
+  return booking.waitlisted ? 'waitlisted' : 'confirmed';
+}
+
+/**
+ * One attendee as exported to CSV and JSON
+ */
+export function toAttendeeRecord(booking: IBooking) {
+  return {
+    email: booking.email,
+    status: attendeeStatus(booking),
+    bookedAt: new Date(booking.createdAt).toISOString(),
+    promotedAt: booking.promotedAt ? new Date(booking.promotedAt).toISOString() : null,
+    cancelledAt: booking.cancelledAt ? new Date(booking.cancelledAt).toISOString() : null,
+  };
+}
+
+/**
+ * Serialize values as a CSV row (RFC 4180)
+ * Values that spreadsheets would run as formulas are prefixed with a quote
+ */
+export function toCsvRow(values: (string | null)[]): string {
+  return values
+    .map((value) => {
+      let cell = value ?? '';
+      if (/^[=+\-@\t\r]/.test(cell)) cell = `'${cell}`;
+      return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+    })
+    .join(',');
+}
@@ -0,0 +1,29 @@
+import { createSignInUrl, SIGN_IN_LINK_TTL_MINUTES } from '@/lib/auth';
+import type { EmailBuilder, EmailBuildResult } from './outbox';
+import { signInEmail } from './templates';
+
+// Builders for the emails queued by lib/auth.ts
+
+type SignInEmailData = { email?: string; next?: string };
+
+const buildSignIn: EmailBuilder = async (data, queued): Promise<EmailBuildResult> => {
+  const { email, next } = data as SignInEmailData;
+  if (!email) return { skip: 'Missing email' };
+
+  // After this long the user has given up waiting, they can ask for a new link
+  if (Date.now() - queued.createdAt.getTime() > SIGN_IN_LINK_TTL_MINUTES * 60000) {
+    return { skip: 'Sign-in request expired' };
+  }
+
+  // Signed now rather than when queued, so the link is never stored in the outbox
+  const url = createSignInUrl(email, next);
+
+  return { message: { to: email, ...signInEmail({ url, expiresInMinutes: SIGN_IN_LINK_TTL_MINUTES }) } };
+};
+
+/**
+ * Builders for every account email template
+ */
+export const authEmailBuilders: Record<'sign-in', EmailBuilder> = {
+  'sign-in': buildSignIn,
+};
@@ -0,0 +1,154 @@
+import { Types } from 'mongoose';
+
+import { Booking, Event, type IBooking, type IEvent } from '@/database';
+import { getManageUrl, getWaitlistPosition, REMINDER_LEAD_HOURS, type BookingEmailTemplate } from '@/lib/bookings';
+import { buildCalendar } from '@/lib/ical';
+import { absoluteUrl, SITE_URL } from '@/lib/site';
+import { formatEventDateTime, resolveEventSchedule } from '@/lib/timezone';
+import type { EmailBuilder, EmailBuildResult } from './outbox';
+import type { EmailMessage } from './transport';
+import {
+  bookingConfirmationEmail,
+  bookingPromotedEmail,
+  bookingReminderEmail,
+  eventCancelledEmail,
+  organizerMessageEmail,
+  type EventEmailDetails,
+  type RenderedEmail,
+} from './templates';
+
+// Builders for the emails queued by lib/bookings.ts, each re-reads the booking when the email is due
+// so cancelled or transferred bookings don't get stale emails
+
+type BookingEmailData = { bookingId?: string; email?: string; subject?: string; message?: string };
+
+interface BookingContext {
+  booking: IBooking;
+  event: IEvent;
+  details: EventEmailDetails;
+  manageUrl: string;
+}
+
+/**
+ * Format the event details shown in an email
+ */
+function toEventDetails(event: IEvent, joinUrl?: string): EventEmailDetails {
+  const { startsAt } = resolveEventSchedule(event);
+
+  return {
+    title: event.title,
+    url: absoluteUrl(`/events/${event.slug}`),
+    when: formatEventDateTime(startsAt, event.timezone ?? 'UTC'),
+    where: `${event.venue}, ${event.location}`,
+    joinUrl,
+  };
+}
+
+/**
+ * Load the active booking and event an email is about
+ * @returns The booking context, or the reason the email no longer applies
+ */
+async function loadBooking({ bookingId }: BookingEmailData): Promise<BookingContext | { skip: string }> {
+  if (!bookingId || !Types.ObjectId.isValid(bookingId)) return { skip: 'Invalid booking id' };
+
+  const booking: IBooking | null = await Booking.findById(bookingId);
+  if (!booking || booking.status !== 'active') return { skip: 'Booking was cancelled' };
+
+  const event = await Event.findById(booking.eventId).lean<IEvent>();
+  if (!event) return { skip: 'Event was deleted' };
+  if (event.cancelledAt) return { skip: 'Event date was cancelled' };
+
+  // People on the waitlist get the join link once they're promoted
+  const details = toEventDetails(event, booking.waitlisted ? undefined : event.onlineUrl);
+
+  return { booking, event, details, manageUrl: await getManageUrl(booking) };
+}
+
+/**
+ * Address a rendered email to the attendee, with the event attached as an invite
+ */
+function toMessage({ booking, event }: BookingContext, rendered: RenderedEmail, attachInvite = true): EmailMessage {
+  const invite = {
+    filename: `${event.slug}.ics`,
+    content: buildCalendar([event], { baseUrl: SITE_URL }),
+    contentType: 'text/calendar; charset=utf-8; method=PUBLISH',
+  };
+
+  return { to: booking.email, ...rendered, attachments: attachInvite ? [invite] : [] };
+}
+
+const buildConfirmation: EmailBuilder = async (data): Promise<EmailBuildResult> => {
+  const context = await loadBooking(data);
+  if ('skip' in context) return context;
+
+  // Queued for an email the booking was transferred away from
+  if (context.booking.email !== (data as BookingEmailData).email) return { skip: 'Booking was transferred' };
+
+  const position = context.booking.waitlisted ? await getWaitlistPosition(context.booking) : null;
+
+  const rendered = bookingConfirmationEmail({ event: context.details, manageUrl: context.manageUrl, position });
+
+  return { message: toMessage(context, rendered) };
+};
+
+const buildPromoted: EmailBuilder = async (data): Promise<EmailBuildResult> => {
+  const context = await loadBooking(data);
+  if ('skip' in context) return context;
+
+  const rendered = bookingPromotedEmail({ event: context.details, manageUrl: context.manageUrl });
+
+  return { message: toMessage(context, rendered) };
+};
+
+const buildReminder: EmailBuilder = async (data): Promise<EmailBuildResult> => {
+  const context = await loadBooking(data);
+  if ('skip' in context) return context;
+  if (context.booking.waitlisted) return { skip: 'Booking is still on the waitlist' };
+
+  const { startsAt } = resolveEventSchedule(context.event);
+  if (startsAt.getTime() <= Date.now()) return { skip: 'Event has already started' };
+
+  // The event was moved to a later date since the reminder was queued
+  const remindAt = new Date(startsAt.getTime() - REMINDER_LEAD_HOURS * 60 * 60000);
+  if (remindAt.getTime() > Date.now() + 60000) return { sendAfter: remindAt };
+
+  const rendered = bookingReminderEmail({ event: context.details, manageUrl: context.manageUrl });
+
+  return { message: toMessage(context, rendered) };
+};
+
+const buildOrganizerMessage: EmailBuilder = async (data): Promise<EmailBuildResult> => {
+  const { subject = '', message = '' } = data as BookingEmailData;
+
+  const context = await loadBooking(data);
+  if ('skip' in context) return context;
+
+  const rendered = organizerMessageEmail({ event: context.details, manageUrl: context.manageUrl, subject, message });
+
+  return { message: toMessage(context, rendered, false) };
+};
+
+// Goes out after the booking was cancelled along with its date, so it doesn't go through loadBooking
+const buildEventCancelled: EmailBuilder = async (data): Promise<EmailBuildResult> => {
+  const { bookingId } = data as BookingEmailData;
+  if (!bookingId || !Types.ObjectId.isValid(bookingId)) return { skip: 'Invalid booking id' };
+
+  const booking: IBooking | null = await Booking.findById(bookingId);
+  if (!booking) return { skip: 'Booking was deleted' };
+
+  const event = await Event.findById(booking.eventId).lean<IEvent>();
+  if (!event?.cancelledAt) return { skip: 'Event date is not cancelled' };
+
+  return { message: { to: booking.email, ...eventCancelledEmail({ event: toEventDetails(event) }) } };
+};
+
+/**
+ * Builders for every booking email template
+ */
+export const bookingEmailBuilders: Record<BookingEmailTemplate, EmailBuilder> = {
+  'booking-confirmation': buildConfirmation,
+  'booking-promoted': buildPromoted,
+  'booking-reminder': buildReminder,
+  'organizer-message': buildOrganizerMessage,
+  'event-cancelled': buildEventCancelled,
+};
@@ -0,0 +1,35 @@
+import { after } from 'next/server';
+
+import { authEmailBuilders } from './auth-emails';
+import { bookingEmailBuilders } from './booking-emails';
+import { processOutbox, type OutboxSummary } from './outbox';
+import { privacyEmailBuilders } from './privacy-emails';
+
+export { enqueueEmail, type EmailBuilder, type OutboxSummary } from './outbox';
+export { getTransport, setTransport, type EmailMessage, type EmailTransport } from './transport';
+
+/**
+ * Builders for every template that can be queued
+ */
+const builders = { ...bookingEmailBuilders, ...authEmailBuilders, ...privacyEmailBuilders };
+
+/**
+ * Send the queued emails that are due
+ */
+export function processEmails(limit?: number): Promise<OutboxSummary> {
+  return processOutbox(builders, limit);
+}
+
+/**
+ * Send the queued emails once the current response has been sent, so attendees don't wait for SMTP
+ * Emails that fail here stay queued for the next run of /api/cron/emails
+ */
+export function sendEmailsAfterResponse(): void {
+  after(async () => {
+    try {
+      await processEmails();
+    } catch (error) {
+      console.error('❌ Failed to process the email outbox:', error);
+    }
+  });
+}
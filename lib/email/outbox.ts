@@ -0,0 +1,160 @@
+import connectToDatabase from '@/lib/mongoose';
+import { Email, type IEmail } from '@/database';
+import { isDuplicateKeyError } from '@/lib/errors';
+import { getTransport, type EmailMessage } from './transport';
+
+// Mongo-backed outbox: emails are queued under an idempotency key and sent by processOutbox,
+// so retried requests never queue an email twice and failed sends are retried with backoff
+
+/**
+ * Give up on an email after this many failed attempts
+ */
+const MAX_ATTEMPTS = 5;
+
+/**
+ * How long a worker may take to send an email before another worker picks it up again
+ */
+const LOCK_MS = 5 * 60000;
+
+/**
+ * Delay before the next attempt, doubling from one minute
+ */
+const retryDelay = (attempts: number) => 2 ** (attempts - 1) * 60000;
+
+/**
+ * What to do with a queued email, decided when it is due
+ * - message: send it
+ * - skip: it no longer applies, e.g. the booking was cancelled
+ * - sendAfter: it isn't due yet after all, e.g. the event was moved
+ */
+export type EmailBuildResult = { message: EmailMessage } | { skip: string } | { sendAfter: Date };
+
+/**
+ * Renders the queued emails of one template from their data
+ */
+export type EmailBuilder = (data: IEmail['data'], email: IEmail) => Promise<EmailBuildResult>;
+
+export interface EnqueueEmailInput {
+  key: string;
+  template: string;
+  data: Record<string, unknown>;
+  sendAfter?: Date;
+}
+
+export interface OutboxSummary {
+  sent: number;
+  skipped: number;
+  retried: number;
+  failed: number;
+}
+
+/**
+ * Queue an email, doing nothing if one with the same key was already queued
+ * @returns boolean - False when the key was already taken
+ */
+export async function enqueueEmail({
+  key,
+  template,
+  data,
+  sendAfter = new Date(),
+}: EnqueueEmailInput): Promise<boolean> {
+  await connectToDatabase();
+
+  try {
+    const { upsertedCount } = await Email.updateOne(
+      { key },
+      { $setOnInsert: { key, template, data, sendAfter, status: 'pending', attempts: 0 } },
+      { upsert: true }
+    );
+    return upsertedCount === 1;
+  } catch (error) {
+    // Two concurrent upserts of the same key, the other one won
+    if (isDuplicateKeyError(error)) return false;
+    throw error;
+  }
+}
+
+/**
+ * Claim the next due email, so no other worker sends it at the same time
+ */
+async function claimNext(now: Date): Promise<IEmail | null> {
+  return Email.findOneAndUpdate(
+    {
+      status: { $in: ['pending', 'sending'] },
+      sendAfter: { $lte: now },
+      $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }],
+    },
+    { $set: { status: 'sending', lockedUntil: new Date(now.getTime() + LOCK_MS) }, $inc: { attempts: 1 } },
+    { sort: { sendAfter: 1 }, new: true }
+  );
+}
+
+/**
+ * Send the emails that are due, oldest first
+ * @param builders - Builder for each template name
+ * @param limit - Maximum number of emails to handle in one run
+ */
+export async function processOutbox(builders: Record<string, EmailBuilder>, limit = 50): Promise<OutboxSummary> {
+  await connectToDatabase();
+
+  const summary: OutboxSummary = { sent: 0, skipped: 0, retried: 0, failed: 0 };
+  const now = new Date();
+
+  for (let i = 0; i < limit; i++) {
+    const email = await claimNext(now);
+    if (!email) break;
+
+    try {
+      const build = builders[email.template];
+      if (!build) throw new Error(`Unknown email template "${email.template}"`);
+
+      const result = await build(email.data, email);
+
+      if ('skip' in result) {
+        await Email.updateOne(
+          { _id: email._id },
+          { $set: { status: 'skipped', lastError: result.skip }, $unset: { lockedUntil: 1 } }
+        );
+        summary.skipped++;
+      } else if ('sendAfter' in result) {
+        // Not an attempt, so don't count it against MAX_ATTEMPTS
+        await Email.updateOne(
+          { _id: email._id },
+          {
+            $set: { status: 'pending', sendAfter: result.sendAfter },
+            $unset: { lockedUntil: 1 },
+            $inc: { attempts: -1 },
+          }
+        );
+      } else {
+        await getTransport().send({ messageId: `<${email._id}@devevent>`, ...result.message });
+        await Email.updateOne(
+          { _id: email._id },
+          { $set: { status: 'sent', sentAt: new Date() }, $unset: { lockedUntil: 1 } }
+        );
+        summary.sent++;
+      }
+    } catch (error) {
+      const lastError = error instanceof Error ? error.message : String(error);
+      const failed = email.attempts >= MAX_ATTEMPTS;
+      console.error(`❌ Failed to send email ${email.key} (attempt ${email.attempts}):`, error);
+
+      await Email.updateOne(
+        { _id: email._id },
+        {
+          $set: {
+            status: failed ? 'failed' : 'pending',
+            sendAfter: new Date(Date.now() + retryDelay(email.attempts)),
+            lastError,
+          },
+          $unset: { lockedUntil: 1 },
+        }
+      );
+
+      if (failed) summary.failed++;
+      else summary.retried++;
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,28 @@
+import { createDataDeletionUrl, DATA_DELETION_LINK_TTL_MINUTES } from '@/lib/privacy';
+import type { EmailBuilder, EmailBuildResult } from './outbox';
+import { dataDeletionEmail } from './templates';
+
+// Builders for the emails queued by lib/privacy.ts
+
+type DataDeletionEmailData = { email?: string };
+
+const buildDataDeletion: EmailBuilder = async (data, queued): Promise<EmailBuildResult> => {
+  const { email } = data as DataDeletionEmailData;
+  if (!email) return { skip: 'Missing email' };
+
+  if (Date.now() - queued.createdAt.getTime() > DATA_DELETION_LINK_TTL_MINUTES * 60000) {
+    return { skip: 'Data deletion request expired' };
+  }
+
+  // Signed now rather than when queued, so the link is never stored in the outbox
+  const url = createDataDeletionUrl(email);
+
+  return { message: { to: email, ...dataDeletionEmail({ url, expiresInMinutes: DATA_DELETION_LINK_TTL_MINUTES }) } };
+};
+
+/**
+ * Builders for every privacy email template
+ */
+export const privacyEmailBuilders: Record<'data-deletion', EmailBuilder> = {
+  'data-deletion': buildDataDeletion,
+};
@@ -0,0 +1,230 @@
+// Email templates, each renders a subject with matching plain text and HTML bodies
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Event details shown in booking emails, already formatted for the attendee
+ */
+export interface EventEmailDetails {
+  title: string;
+  url: string;
+  when: string; // e.g. "Mon, Dec 1, 18:00 GMT+1"
+  where: string;
+  joinUrl?: string; // Link to join online, only for confirmed attendees
+}
+
+interface BookingEmailInput {
+  event: EventEmailDetails;
+  manageUrl: string;
+}
+
+/**
+ * Escape text for use inside HTML
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Wrap HTML content in the shared layout
+ */
+function layout(title: string, content: string): string {
+  return `<!doctype html>
+<html>
+  <body style="margin:0;padding:24px;background:#0d161a;color:#e7f2ff;font-family:Helvetica,Arial,sans-serif">
+    <div style="max-width:560px;margin:0 auto">
+      <h1 style="color:#5dfeca;font-size:22px">${escapeHtml(title)}</h1>
+      ${content}
+    </div>
+  </body>
+</html>`;
+}
+
+function paragraphsHtml(paragraphs: string[]): string {
+  return paragraphs.map((p) => `<p style="line-height:1.5">${escapeHtml(p)}</p>`).join('\n      ');
+}
+
+/**
+ * Row of the event details table in booking emails
+ */
+function detailRow(label: string, valueHtml: string): string {
+  return `<tr><td style="color:#bdbdbd;padding-right:16px">${label}</td><td>${valueHtml}</td></tr>`;
+}
+
+/**
+ * HTML body of booking emails: paragraphs followed by the event details
+ */
+function bookingHtml(paragraphs: string[], event: EventEmailDetails, manageUrl: string): string {
+  const joinUrl = event.joinUrl && escapeHtml(event.joinUrl);
+  const rows = [
+    detailRow('When', escapeHtml(event.when)),
+    detailRow('Where', escapeHtml(event.where)),
+    ...(joinUrl ? [detailRow('Join online', `<a href="${joinUrl}" style="color:#5dfeca">${joinUrl}</a>`)] : []),
+  ];
+
+  return layout(
+    event.title,
+    `${paragraphsHtml(paragraphs)}
+      <table style="margin:16px 0;border-spacing:0 6px">
+        ${rows.join('\n        ')}
+      </table>
+      <p><a href="${escapeHtml(event.url)}" style="color:#5dfeca">View event</a></p>
+      <p style="font-size:13px;color:#bdbdbd">
+        Can't make it? <a href="${escapeHtml(manageUrl)}" style="color:#5dfeca">Cancel or transfer your booking</a>.
+      </p>`
+  );
+}
+
+/**
+ * Plain text body of booking emails
+ */
+function bookingText(paragraphs: string[], event: EventEmailDetails, manageUrl: string): string {
+  return [
+    event.title,
+    '',
+    ...paragraphs.flatMap((p) => [p, '']),
+    `When: ${event.when}`,
+    `Where: ${event.where}`,
+    ...(event.joinUrl ? [`Join online: ${event.joinUrl}`] : []),
+    '',
+    `View event: ${event.url}`,
+    `Cancel or transfer your booking: ${manageUrl}`,
+  ].join('\n');
+}
+
+function render(subject: string, paragraphs: string[], { event, manageUrl }: BookingEmailInput): RenderedEmail {
+  return {
+    subject,
+    text: bookingText(paragraphs, event, manageUrl),
+    html: bookingHtml(paragraphs, event, manageUrl),
+  };
+}
+
+/**
+ * Sent right after booking, or after a booking is transferred to the attendee
+ * @param position - Place on the waitlist, null for confirmed bookings
+ */
+export function bookingConfirmationEmail(input: BookingEmailInput & { position: number | null }): RenderedEmail {
+  if (input.position !== null) {
+    return render(
+      `You're on the waitlist for ${input.event.title}`,
+      [
+        `The event is full, so you're #${input.position} on the waitlist.`,
+        "We'll email you as soon as a spot opens up.",
+      ],
+      input
+    );
+  }
+
+  return render(
+    `You're booked: ${input.event.title}`,
+    ['Your spot is confirmed, see you there! The attached invite adds the event to your calendar.'],
+    input
+  );
+}
+
+/**
+ * Sent when a spot opens up and the attendee moves off the waitlist
+ */
+export function bookingPromotedEmail(input: BookingEmailInput): RenderedEmail {
+  return render(
+    `A spot opened up: ${input.event.title}`,
+    ["Good news, a spot opened up and it's yours. Your booking is now confirmed."],
+    input
+  );
+}
+
+/**
+ * Sent a day before the event starts
+ */
+export function bookingReminderEmail(input: BookingEmailInput): RenderedEmail {
+  return render(
+    `Tomorrow: ${input.event.title}`,
+    ['Just a reminder that the event starts in about 24 hours.'],
+    input
+  );
+}
+
+/**
+ * Sent when the organizer cancels the date an attendee booked, their booking is cancelled with it
+ */
+export function eventCancelledEmail({ event }: { event: EventEmailDetails }): RenderedEmail {
+  const paragraphs = [
+    `${event.title} on ${event.when} has been cancelled, so your booking was cancelled too.`,
+    'The event page lists any other dates you can book.',
+  ];
+
+  return {
+    subject: `Cancelled: ${event.title}`,
+    text: [event.title, '', ...paragraphs.flatMap((p) => [p, '']), `View event: ${event.url}`].join('\n'),
+    html: layout(
+      event.title,
+      `${paragraphsHtml(paragraphs)}
+      <p><a href="${escapeHtml(event.url)}" style="color:#5dfeca">View event</a></p>`
+    ),
+  };
+}
+
+/**
+ * Sent when someone asks to sign in
+ */
+export function signInEmail({ url, expiresInMinutes }: { url: string; expiresInMinutes: number }): RenderedEmail {
+  const note = `The link works once and expires in ${expiresInMinutes} minutes. If you didn't ask to sign in, ignore this email.`;
+
+  return {
+    subject: 'Sign in to DevEvent',
+    text: ['Sign in to DevEvent', '', `Use this link to sign in: ${url}`, '', note].join('\n'),
+    html: layout(
+      'Sign in to DevEvent',
+      `<p><a href="${escapeHtml(url)}" style="color:#5dfeca">Sign in</a></p>
+      <p style="font-size:13px;color:#bdbdbd">${escapeHtml(note)}</p>`
+    ),
+  };
+}
+
+/**
+ * Asks an attendee to confirm that their bookings should be deleted
+ */
+export function dataDeletionEmail({
+  url,
+  expiresInMinutes,
+}: {
+  url: string;
+  expiresInMinutes: number;
+}): RenderedEmail {
+  const note = `The link expires in ${expiresInMinutes} minutes. If you didn't ask to delete your data, ignore this email.`;
+  const intro = 'Use the link below to permanently delete your DevEvent bookings and the emails we sent about them.';
+
+  return {
+    subject: 'Confirm deleting your DevEvent data',
+    text: ['Delete your DevEvent data', '', intro, url, '', note].join('\n'),
+    html: layout(
+      'Delete your DevEvent data',
+      `<p>${escapeHtml(intro)}</p>
+      <p><a href="${escapeHtml(url)}" style="color:#5dfeca">Review and delete my data</a></p>
+      <p style="font-size:13px;color:#bdbdbd">${escapeHtml(note)}</p>`
+    ),
+  };
+}
+
+/**
+ * Written by an event's organizer and sent to its attendees from the dashboard
+ * @param message - Plain text, blank lines separate paragraphs
+ */
+export function organizerMessageEmail(input: BookingEmailInput & { subject: string; message: string }): RenderedEmail {
+  const paragraphs = input.message
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean);
+
+  return render(input.subject, paragraphs, input);
+}
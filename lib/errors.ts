@@ -0,0 +1,97 @@
+import mongoose from 'mongoose';
+import { NextResponse } from 'next/server';
+
+/**
+ * Per-field error messages, keyed by document path
+ */
+export type FieldErrors = Record<string, string>;
+
+/**
+ * JSON body returned by API routes when a request fails
+ */
+export interface ErrorBody {
+  message: string;
+  errors?: FieldErrors;
+}
+
+/**
+ * Error with an HTTP status, thrown by route handlers for expected failures
+ */
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public errors?: FieldErrors
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/**
+ * Shape of the MongoDB driver error raised when a unique index is violated
+ */
+interface DuplicateKeyError {
+  code: 11000;
+  keyValue?: Record<string, unknown>;
+}
+
+/**
+ * Check whether an error was raised by a unique index violation
+ */
+export function isDuplicateKeyError(error: unknown): error is DuplicateKeyError {
+  return typeof error === 'object' && error !== null && (error as { code?: unknown }).code === 11000;
+}
+
+/**
+ * Map an error to an HTTP status and a structured JSON body
+ * Mongoose validation, cast and duplicate key errors are reported per field,
+ * anything unexpected is logged and hidden behind a generic 500
+ * @param duplicateMessages - Messages to use instead of the generic one when a unique index on that path fires
+ */
+export function toErrorBody(
+  error: unknown,
+  duplicateMessages: FieldErrors = {}
+): { status: number; body: ErrorBody } {
+  if (error instanceof ApiError) {
+    return { status: error.status, body: { message: error.message, errors: error.errors } };
+  }
+
+  if (error instanceof mongoose.Error.ValidationError) {
+    const errors: FieldErrors = {};
+    for (const [path, fieldError] of Object.entries(error.errors)) {
+      errors[path] = fieldError.message;
+    }
+    return { status: 400, body: { message: 'Validation failed', errors } };
+  }
+
+  if (error instanceof mongoose.Error.CastError) {
+    return {
+      status: 400,
+      body: { message: 'Validation failed', errors: { [error.path]: `Invalid value for ${error.path}` } },
+    };
+  }
+
+  if (isDuplicateKeyError(error)) {
+    const errors: FieldErrors = {};
+    for (const [path, value] of Object.entries(error.keyValue ?? {})) {
+      errors[path] = duplicateMessages[path] ?? `"${value}" is already taken`;
+    }
+    return { status: 409, body: { message: 'A record with the same unique value already exists', errors } };
+  }
+
+  if (error instanceof SyntaxError) {
+    return { status: 400, body: { message: 'Request body must be valid JSON' } };
+  }
+
+  console.error('❌ Unexpected error:', error);
+  return { status: 500, body: { message: 'Internal server error' } };
+}
+
+/**
+ * Build a JSON error response for a route handler
+ */
+export function errorResponse(error: unknown, duplicateMessages?: FieldErrors): NextResponse<ErrorBody> {
+  const { status, body } = toErrorBody(error, duplicateMessages);
+  return NextResponse.json(body, { status });
+}
@@ -0,0 +1,311 @@
+import type { AgendaSessionValues } from '@/lib/agenda';
+import type { FieldErrors } from '@/lib/errors';
+import { isValidLatitude, isValidLongitude } from '@/lib/geo';
+import { validateRecurrence, type RecurrenceFrequency, type RecurrenceRule } from '@/lib/recurrence';
+import { computeEventSchedule, isValidTimeZone } from '@/lib/timezone';
+
+// Validation rules shared by EventSchema and the Create Event form
+
+export const EVENT_MODES = ['online', 'offline', 'hybrid'] as const;
+
+export type EventMode = (typeof EVENT_MODES)[number];
+
+export const EVENT_MAX_LENGTHS = {
+  title: 200,
+  description: 2000,
+  overview: 1000,
+} as const;
+
+export const SESSION_MAX_LENGTHS = {
+  title: 200,
+  description: 1000,
+  track: 60,
+  room: 60,
+} as const;
+
+/**
+ * Values collected by the Create Event form
+ */
+export interface EventFormValues {
+  title: string;
+  description: string;
+  overview: string;
+  image: string;
+  venue: string;
+  location: string;
+  latitude: string; // Optional, together with longitude
+  longitude: string;
+  date: string;
+  time: string;
+  timezone: string;
+  endDate: string;
+  endTime: string;
+  repeat: string; // Empty for a one-off event, otherwise weekly or monthly
+  repeatInterval: string;
+  repeatCount: string; // Optional, number of dates
+  repeatUntil: string; // Optional, last date
+  mode: string;
+  onlineUrl: string; // Optional, for online and hybrid events
+  audience: string;
+  agenda: AgendaSessionValues[];
+  organizer: string;
+  tags: string[];
+  capacity: string; // Optional, empty for unlimited
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Check whether a string parses as an absolute URL
+ */
+export function isValidUrl(url: string): boolean {
+  try {
+    new URL(url);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check whether a string is usable as the link attendees join an online event with
+ * Only web links, so the link can never run script when clicked
+ */
+export function isValidOnlineUrl(url: string): boolean {
+  return isValidUrl(url) && ['http:', 'https:'].includes(new URL(url).protocol);
+}
+
+/**
+ * Check whether a string is usable as an event image
+ * Accepts absolute URLs and paths to files served from public/ (e.g. "/images/event1.png")
+ */
+export function isValidImageUrl(url: string): boolean {
+  return (url.startsWith('/') && !url.startsWith('//')) || isValidUrl(url);
+}
+
+/**
+ * Normalize a date string to YYYY-MM-DD
+ * Reads the calendar date as written, so the result never depends on the server's time zone
+ * @returns The normalized date, or null if the string is not a valid date
+ */
+export function normalizeDate(value: string): string | null {
+  const iso = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) {
+    const [, year, month, day] = iso.map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day));
+    // Reject dates like 2026-02-30 that Date would roll over
+    if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+    return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  }
+
+  // Other formats like "May 1, 2026" are parsed as local midnight, so read the local components back
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return null;
+
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Normalize tags the way filters look them up: trimmed, lowercase, without empty or repeated tags
+ */
+export function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+}
+
+/**
+ * Normalize a time string to HH:MM
+ * Accepts 24-hour times ("9:00", "09:00:00") and 12-hour times ("9:00 AM", "9:30pm")
+ * @returns The normalized time, or null if the string is not a valid time
+ */
+export function normalizeTime(value: string): string | null {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})(?::\d{2})?\s*([ap])?\.?m?\.?$/i);
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  const meridiem = match[3]?.toLowerCase();
+
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === 'p' ? 12 : 0);
+  }
+  if (hours > 23 || minutes > 59) return null;
+
+  return `${pad(hours)}:${pad(minutes)}`;
+}
+
+/**
+ * Recurrence chosen in the form
+ * @returns RecurrenceRule | null - Null for a one-off event
+ */
+export function toRecurrenceRule(
+  values: Pick<EventFormValues, 'repeat' | 'repeatInterval' | 'repeatCount' | 'repeatUntil'>
+): RecurrenceRule | null {
+  if (!values.repeat) return null;
+
+  return {
+    frequency: values.repeat as RecurrenceFrequency,
+    interval: Number(values.repeatInterval || 1),
+    count: values.repeatCount ? Number(values.repeatCount) : undefined,
+    until: values.repeatUntil || undefined,
+  };
+}
+
+/**
+ * Check the sessions of the form
+ * @returns FieldErrors - Keyed by session index and field, e.g. "1.startTime", empty when every session is valid
+ */
+export function validateAgendaSessions(
+  sessions: AgendaSessionValues[],
+  { date, endDate }: { date?: string; endDate?: string } = {}
+): FieldErrors {
+  const errors: FieldErrors = {};
+
+  sessions.forEach((session, index) => {
+    const title = session.title.trim();
+    if (!title) errors[`${index}.title`] = 'Session title is required';
+    else if (title.length > SESSION_MAX_LENGTHS.title) {
+      errors[`${index}.title`] = `Session title cannot exceed ${SESSION_MAX_LENGTHS.title} characters`;
+    }
+    if (session.description.trim().length > SESSION_MAX_LENGTHS.description) {
+      errors[`${index}.description`] = `Description cannot exceed ${SESSION_MAX_LENGTHS.description} characters`;
+    }
+    if (session.track.trim().length > SESSION_MAX_LENGTHS.track) {
+      errors[`${index}.track`] = `Track cannot exceed ${SESSION_MAX_LENGTHS.track} characters`;
+    }
+    if (session.room.trim().length > SESSION_MAX_LENGTHS.room) {
+      errors[`${index}.room`] = `Room cannot exceed ${SESSION_MAX_LENGTHS.room} characters`;
+    }
+
+    const start = session.startTime && normalizeTime(session.startTime);
+    const end = session.endTime && normalizeTime(session.endTime);
+    if (session.startTime && !start) errors[`${index}.startTime`] = 'Start time must be in HH:MM format';
+    if (session.endTime && !end) errors[`${index}.endTime`] = 'End time must be in HH:MM format';
+    if (session.endTime && !session.startTime) errors[`${index}.startTime`] = 'Start time is required with an end time';
+    if (start && end && end <= start) errors[`${index}.endTime`] = 'Session must end after it starts';
+
+    if (session.date && date && (session.date < date || (endDate && session.date > endDate))) {
+      errors[`${index}.date`] = 'Session must take place while the event runs';
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Validate event form values with the same rules as EventSchema
+ * @returns FieldErrors - Empty when the values are valid
+ */
+export function validateEventInput(values: EventFormValues): FieldErrors {
+  const errors: FieldErrors = {};
+
+  const required: [keyof EventFormValues, string][] = [
+    ['title', 'Title is required'],
+    ['description', 'Description is required'],
+    ['overview', 'Overview is required'],
+    ['image', 'Image URL is required'],
+    ['venue', 'Venue is required'],
+    ['location', 'Location is required'],
+    ['date', 'Date is required'],
+    ['time', 'Time is required'],
+    ['timezone', 'Time zone is required'],
+    ['mode', 'Mode is required'],
+    ['audience', 'Audience is required'],
+    ['organizer', 'Organizer is required'],
+  ];
+
+  for (const [field, message] of required) {
+    if (!String(values[field]).trim()) errors[field] = message;
+  }
+
+  if (values.title.trim().length > EVENT_MAX_LENGTHS.title) {
+    errors.title = `Title cannot exceed ${EVENT_MAX_LENGTHS.title} characters`;
+  }
+  if (values.description.trim().length > EVENT_MAX_LENGTHS.description) {
+    errors.description = `Description cannot exceed ${EVENT_MAX_LENGTHS.description} characters`;
+  }
+  if (values.overview.trim().length > EVENT_MAX_LENGTHS.overview) {
+    errors.overview = `Overview cannot exceed ${EVENT_MAX_LENGTHS.overview} characters`;
+  }
+
+  if (values.image.trim() && !isValidImageUrl(values.image.trim())) {
+    errors.image = 'Image must be a valid URL';
+  }
+
+  if (values.date && !normalizeDate(values.date)) {
+    errors.date = 'Date must be in a valid format (YYYY-MM-DD or ISO string)';
+  }
+  if (values.time && !normalizeTime(values.time)) {
+    errors.time = 'Time must be in HH:MM format';
+  }
+
+  if (values.timezone && !isValidTimeZone(values.timezone)) {
+    errors.timezone = 'Time zone must be a valid IANA time zone';
+  }
+  if (values.endDate && !normalizeDate(values.endDate)) {
+    errors.endDate = 'End date must be in a valid format (YYYY-MM-DD or ISO string)';
+  }
+  if (values.endTime && !normalizeTime(values.endTime)) {
+    errors.endTime = 'End time must be in HH:MM format';
+  }
+
+  const date = normalizeDate(values.date);
+  const time = normalizeTime(values.time);
+  const hasValidEnd = !errors.timezone && !errors.endDate && !errors.endTime;
+  if (date && time && hasValidEnd && (values.endDate || values.endTime)) {
+    const { startsAt, endsAt } = computeEventSchedule({
+      date,
+      time,
+      timezone: values.timezone || 'UTC',
+      endDate: values.endDate && normalizeDate(values.endDate),
+      endTime: values.endTime && normalizeTime(values.endTime),
+    });
+    if (endsAt <= startsAt) {
+      errors[values.endTime ? 'endTime' : 'endDate'] = 'Event must end after it starts';
+    }
+  }
+
+  const recurrence = toRecurrenceRule(values);
+  if (recurrence) {
+    const { frequency, interval, count, until } = validateRecurrence(recurrence, date ?? undefined);
+    if (frequency) errors.repeat = frequency;
+    if (interval) errors.repeatInterval = interval;
+    if (count) errors.repeatCount = count;
+    if (until) errors.repeatUntil = until;
+    if (values.endDate) errors.endDate = 'Each date of a recurring event must end on the day it starts';
+  }
+
+  if (values.mode && !EVENT_MODES.includes(values.mode as EventMode)) {
+    errors.mode = 'Mode must be online, offline, or hybrid';
+  }
+
+  if (values.latitude || values.longitude) {
+    if (!values.latitude) errors.latitude = 'Latitude is required with a longitude';
+    else if (!isValidLatitude(Number(values.latitude))) errors.latitude = 'Latitude must be between -90 and 90';
+    if (!values.longitude) errors.longitude = 'Longitude is required with a latitude';
+    else if (!isValidLongitude(Number(values.longitude))) errors.longitude = 'Longitude must be between -180 and 180';
+  }
+
+  if (values.onlineUrl.trim()) {
+    if (values.mode === 'offline') errors.onlineUrl = 'Only online and hybrid events have an online URL';
+    else if (!isValidOnlineUrl(values.onlineUrl.trim())) errors.onlineUrl = 'Online URL must be a valid http(s) URL';
+  }
+
+  if (values.capacity) {
+    const capacity = Number(values.capacity);
+    if (!Number.isInteger(capacity)) errors.capacity = 'Capacity must be a whole number';
+    else if (capacity < 1) errors.capacity = 'Capacity must be at least 1';
+  }
+
+  if (values.agenda.length === 0) {
+    errors.agenda = 'Agenda must contain at least one session';
+  }
+  const sessionErrors = validateAgendaSessions(values.agenda, { date: date ?? undefined, endDate: values.endDate });
+  const [firstSessionError] = Object.values(sessionErrors);
+  if (firstSessionError) errors.agenda = firstSessionError;
+  if (values.tags.length === 0) {
+    errors.tags = 'At least one tag is required';
+  }
+
+  return errors;
+}
@@ -0,0 +1,197 @@
+import { Types, type FilterQuery } from 'mongoose';
+
+import connectToDatabase from '@/lib/mongoose';
+import { Event, type IEvent } from '@/database';
+import { ApiError, type FieldErrors } from '@/lib/errors';
+import { EVENT_MODES, type EventMode } from '@/lib/event-rules';
+import { PRIVATE_EVENT_FIELDS, listedEventsFilter } from '@/lib/events';
+import {
+  DEFAULT_NEAR_RADIUS_KM,
+  EARTH_RADIUS_KM,
+  MAX_NEAR_RADIUS_KM,
+  isValidLatitude,
+  isValidLongitude,
+} from '@/lib/geo';
+
+const DEFAULT_PAGE_SIZE = 12;
+const MAX_PAGE_SIZE = 50;
+
+const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Search and filter options for the events listing, parsed from the query string
+ */
+export interface EventSearchParams {
+  q?: string; // Full-text search over title, description and tags
+  mode?: EventMode;
+  tags: string[]; // Events must have every tag
+  location?: string; // Case-insensitive substring match
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+  near?: { lat: number; lng: number; radius: number }; // Events within radius km of the point
+  cursor?: string; // Opaque cursor returned by the previous page
+  limit: number;
+}
+
+export interface EventSearchResult {
+  events: IEvent[];
+  nextCursor: string | null;
+}
+
+/**
+ * Position of the last event on a page, events are ordered by (date, _id)
+ */
+interface Cursor {
+  date: string;
+  id: string;
+}
+
+function encodeCursor({ date, _id }: Pick<IEvent, 'date' | '_id'>): string {
+  return Buffer.from(JSON.stringify({ date, id: String(_id) })).toString('base64url');
+}
+
+function decodeCursor(cursor: string): Cursor | null {
+  try {
+    const { date, id } = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if (typeof date !== 'string' || !Types.ObjectId.isValid(id)) return null;
+    return { date, id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Escape a string for literal use inside a regular expression
+ */
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Parse and validate listing options from URL search params
+ * @throws ApiError - 400 with per-field messages when a param is invalid
+ */
+export function parseEventSearchParams(searchParams: URLSearchParams): EventSearchParams {
+  const errors: FieldErrors = {};
+  const get = (key: string) => searchParams.get(key)?.trim() || undefined;
+
+  const mode = get('mode');
+  if (mode && !EVENT_MODES.includes(mode as EventMode)) {
+    errors.mode = 'Mode must be online, offline, or hybrid';
+  }
+
+  const from = get('from');
+  if (from && !dateRegex.test(from)) errors.from = 'From must be a date in YYYY-MM-DD format';
+
+  const to = get('to');
+  if (to && !dateRegex.test(to)) errors.to = 'To must be a date in YYYY-MM-DD format';
+
+  const lat = get('lat');
+  const lng = get('lng');
+  const radius = Number(get('radius') ?? DEFAULT_NEAR_RADIUS_KM);
+  if (lat || lng) {
+    if (!lat || !isValidLatitude(Number(lat))) errors.lat = 'Lat must be a latitude between -90 and 90';
+    if (!lng || !isValidLongitude(Number(lng))) errors.lng = 'Lng must be a longitude between -180 and 180';
+    if (!(radius > 0 && radius <= MAX_NEAR_RADIUS_KM)) {
+      errors.radius = `Radius must be between 0 and ${MAX_NEAR_RADIUS_KM} km`;
+    }
+  }
+
+  const cursor = get('cursor');
+  if (cursor && !decodeCursor(cursor)) errors.cursor = 'Cursor is invalid';
+
+  const requestedLimit = Number(get('limit') ?? DEFAULT_PAGE_SIZE);
+  if (!Number.isInteger(requestedLimit) || requestedLimit < 1) {
+    errors.limit = 'Limit must be a positive integer';
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw new ApiError(400, 'Invalid search parameters', errors);
+  }
+
+  const tags = searchParams
+    .getAll('tag')
+    .map((tag) => tag.trim().toLowerCase())
+    .filter(Boolean);
+
+  return {
+    q: get('q'),
+    mode: mode as EventMode | undefined,
+    tags: [...new Set(tags)],
+    location: get('location'),
+    from,
+    to,
+    near: lat && lng ? { lat: Number(lat), lng: Number(lng), radius } : undefined,
+    cursor,
+    limit: Math.min(requestedLimit, MAX_PAGE_SIZE),
+  };
+}
+
+/**
+ * Serialize listing options back to a query string, omitting empty values
+ */
+export function toSearchQueryString(params: Partial<EventSearchParams>): string {
+  const query = new URLSearchParams();
+
+  for (const key of ['q', 'mode', 'location', 'from', 'to', 'cursor'] as const) {
+    const value = params[key];
+    if (value) query.set(key, value);
+  }
+  params.tags?.forEach((tag) => query.append('tag', tag));
+  if (params.near) {
+    query.set('lat', String(params.near.lat));
+    query.set('lng', String(params.near.lng));
+    query.set('radius', String(params.near.radius));
+  }
+
+  return query.toString();
+}
+
+/**
+ * Find events matching the listing options, ordered by date
+ * Uses cursor pagination so pages stay stable while events are being added
+ */
+export async function searchEvents(params: EventSearchParams): Promise<EventSearchResult> {
+  await connectToDatabase();
+
+  const filter: FilterQuery<IEvent> = listedEventsFilter();
+
+  if (params.q) filter.$text = { $search: params.q };
+  if (params.mode) filter.mode = params.mode;
+  if (params.tags.length > 0) filter.tags = { $all: params.tags };
+  if (params.location) filter.location = { $regex: escapeRegex(params.location), $options: 'i' };
+
+  if (params.from || params.to) {
+    filter.date = {
+      ...(params.from && { $gte: params.from }),
+      ...(params.to && { $lte: params.to }),
+    };
+  }
+
+  // $geoWithin rather than $near, so results keep the (date, _id) order cursor pagination relies on
+  if (params.near) {
+    const { lat, lng, radius } = params.near;
+    filter.geo = { $geoWithin: { $centerSphere: [[lng, lat], radius / EARTH_RADIUS_KM] } };
+  }
+
+  const cursor = params.cursor ? decodeCursor(params.cursor) : null;
+  if (cursor) {
+    const id = new Types.ObjectId(cursor.id);
+    filter.$and = [{ $or: [{ date: { $gt: cursor.date } }, { date: cursor.date, _id: { $gt: id } }] }];
+  }
+
+  // Fetch one extra event to know whether there is a next page
+  const events = await Event.find(filter)
+    .select(PRIVATE_EVENT_FIELDS)
+    .sort({ date: 1, _id: 1 })
+    .limit(params.limit + 1)
+    .lean<IEvent[]>();
+
+  const hasMore = events.length > params.limit;
+  const page = hasMore ? events.slice(0, params.limit) : events;
+
+  return {
+    events: page,
+    nextCursor: hasMore ? encodeCursor(page[page.length - 1]) : null,
+  };
+}
@@ -0,0 +1,316 @@
+import { cache } from 'react';
+import type { FilterQuery } from 'mongoose';
+import { revalidatePath, revalidateTag, unstable_cache } from 'next/cache';
+
+import connectToDatabase from '@/lib/mongoose';
+import { Booking, Event, type IAgendaSession, type IEvent } from '@/database';
+import type { SessionUser } from '@/lib/auth';
+import type { EventItem } from '@/lib/constants';
+import { isDuplicateKeyError } from '@/lib/errors';
+import { resolveEventSchedule } from '@/lib/timezone';
+
+/**
+ * Cache tag for every cached event listing
+ */
+export const EVENTS_CACHE_TAG = 'events';
+
+/**
+ * Number of events shown in the home page "Featured Events" section
+ */
+const FEATURED_EVENTS_LIMIT = 12;
+
+/**
+ * Fields left out of public responses, the online URL is only shared with attendees
+ */
+export const PRIVATE_EVENT_FIELDS = { onlineUrl: 0 } as const;
+
+/**
+ * Fetch a single event by its slug, once per request so metadata, images and the page share the query
+ * @returns The event as a plain object, or null if no event matches
+ */
+export const getEventBySlug = cache(async (slug: string): Promise<IEvent | null> => {
+  await connectToDatabase();
+
+  return Event.findOne({ slug: slug.toLowerCase() }).lean<IEvent>();
+});
+
+/**
+ * Find the current slug of an event that was renamed, so links to its old slug can redirect
+ * @returns string | null - Null if no event ever had the slug
+ */
+export async function findRenamedEventSlug(previousSlug: string): Promise<string | null> {
+  await connectToDatabase();
+
+  const event = await Event.findOne({ previousSlugs: previousSlug.toLowerCase() })
+    .select('slug')
+    .lean<Pick<IEvent, 'slug'>>();
+
+  return event?.slug ?? null;
+}
+
+/**
+ * Convert an event document to the plain shape rendered by EventCard
+ * Events saved before time zone support get UTC and a schedule computed on the fly
+ */
+export function toEventItem(event: IEvent): EventItem {
+  const { title, image, slug, location, date, time, capacity, bookedCount } = event;
+  const timezone = event.timezone ?? 'UTC';
+  const { startsAt, endsAt } = resolveEventSchedule(event);
+
+  return {
+    title,
+    image,
+    slug,
+    location,
+    date,
+    time,
+    timezone,
+    startsAt: startsAt.toISOString(),
+    endsAt: endsAt.toISOString(),
+    capacity,
+    bookedCount: bookedCount ?? 0,
+    recurring: Boolean(event.seriesId),
+  };
+}
+
+/**
+ * Events shown in listings: each series is listed once, as its next occurrence that isn't cancelled
+ * The flag is moved along by refreshNextOccurrence, so listings filter on it rather than grouping occurrences
+ */
+export function listedEventsFilter(): FilterQuery<IEvent> {
+  return {
+    cancelledAt: null,
+    $or: [{ seriesId: null }, { isNextOccurrence: true, endsAt: { $gte: new Date() } }],
+  };
+}
+
+/**
+ * Events that haven't ended yet
+ */
+export function upcomingEventsFilter(): FilterQuery<IEvent> {
+  return {
+    // Events saved before time zone support have no endsAt, compare their local date instead
+    $or: [{ endsAt: { $gte: new Date() } }, { endsAt: { $exists: false }, date: { $gte: today() } }],
+  };
+}
+
+/**
+ * Upcoming featured events first, then the rest ordered by date, each series once
+ * Cached in the Next data cache until an event changes
+ */
+export const getFeaturedEvents = unstable_cache(
+  async (): Promise<EventItem[]> => {
+    await connectToDatabase();
+
+    const events = await Event.find({ $and: [listedEventsFilter(), upcomingEventsFilter()] })
+      .sort({ featured: -1, date: 1 })
+      .limit(FEATURED_EVENTS_LIMIT)
+      .lean<IEvent[]>();
+
+    return events.map(toEventItem);
+  },
+  ['featured-events'],
+  { tags: [EVENTS_CACHE_TAG], revalidate: 3600 }
+);
+
+/**
+ * Today's date in the normalized event date format (YYYY-MM-DD)
+ */
+export function today(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+/**
+ * Events that haven't ended yet, ordered by start
+ * @param tags - Only include events that have every one of these tags
+ * @param includeCancelled - Also include cancelled occurrences of a series, e.g. so calendar feeds can remove them
+ */
+export async function getUpcomingEvents({
+  tags = [],
+  limit = 500,
+  includeCancelled = false,
+}: { tags?: string[]; limit?: number; includeCancelled?: boolean } = {}) {
+  await connectToDatabase();
+
+  return Event.find({
+    ...upcomingEventsFilter(),
+    ...(!includeCancelled && { cancelledAt: null }),
+    ...(tags.length > 0 && { tags: { $all: tags } }),
+  })
+    .sort({ startsAt: 1, _id: 1 }) // UTC start, local dates and times don't compare across time zones
+    .limit(limit)
+    .lean<IEvent[]>();
+}
+
+/**
+ * Invalidate cached event listings and the detail pages of the given slugs
+ * Call after creating, updating or deleting an event
+ */
+export function revalidateEvents(...slugs: string[]) {
+  revalidateTag(EVENTS_CACHE_TAG, 'max');
+  for (const slug of slugs) {
+    revalidatePath(`/events/${slug}`);
+  }
+}
+
+/**
+ * Get the slugs of the most booked events
+ * Falls back to the most recently created events when there aren't enough bookings yet
+ * @param limit - Maximum number of slugs to return
+ * @returns string[] - Event slugs, most popular first
+ */
+export async function getPopularEventSlugs(limit = 10): Promise<string[]> {
+  await connectToDatabase();
+
+  const popular: { slug: string }[] = await Booking.aggregate([
+    { $match: { status: 'active' } },
+    { $group: { _id: '$eventId', bookings: { $sum: 1 } } },
+    { $sort: { bookings: -1 } },
+    { $limit: limit },
+    { $lookup: { from: 'events', localField: '_id', foreignField: '_id', as: 'event' } },
+    { $unwind: '$event' },
+    { $project: { _id: 0, slug: '$event.slug' } },
+  ]);
+
+  const slugs = popular.map(({ slug }) => slug);
+
+  if (slugs.length < limit) {
+    const recent = await Event.find({ slug: { $nin: slugs } })
+      .sort({ createdAt: -1 })
+      .limit(limit - slugs.length)
+      .select('slug')
+      .lean<Pick<IEvent, 'slug'>[]>();
+
+    slugs.push(...recent.map(({ slug }) => slug));
+  }
+
+  return slugs;
+}
+
+/**
+ * Event fields that can be set through the API, slug and timestamps are managed by the schema
+ */
+export const EDITABLE_EVENT_FIELDS = [
+  'title',
+  'description',
+  'overview',
+  'image',
+  'venue',
+  'location',
+  'city',
+  'country',
+  'geo',
+  'onlineUrl',
+  'date',
+  'time',
+  'timezone',
+  'endDate',
+  'endTime',
+  'mode',
+  'audience',
+  'agenda',
+  'organizer',
+  'tags',
+  'featured',
+  'capacity',
+] as const;
+
+export type EventInput = Partial<Pick<IEvent, (typeof EDITABLE_EVENT_FIELDS)[number]>>;
+
+/**
+ * Copy only the editable event fields from an untrusted request body
+ * Featuring pins an event to the top of the home page, so only admins may set it
+ */
+export function pickEventFields(body: unknown, user: Pick<SessionUser, 'role'>): EventInput {
+  const input: Record<string, unknown> = {};
+  if (typeof body !== 'object' || body === null) return input;
+
+  for (const field of EDITABLE_EVENT_FIELDS) {
+    if (field === 'featured' && user.role !== 'admin') continue;
+    if (field in body) {
+      input[field] = (body as Record<string, unknown>)[field];
+    }
+  }
+
+  return input as EventInput;
+}
+
+/**
+ * Give sessions of a replacing agenda the ids of the sessions they replace, so attendees' saved schedules
+ * keep pointing at them
+ * Sessions are matched by an `_id` or `id` they carry, otherwise by title, date and start time, then by title alone
+ */
+export function keepSessionIds(existing: IAgendaSession[], agenda: EventInput['agenda']): EventInput['agenda'] {
+  if (!Array.isArray(agenda)) return agenda;
+
+  const unmatched = [...existing];
+  const take = (match: (session: IAgendaSession) => boolean) => {
+    const index = unmatched.findIndex(match);
+    return index === -1 ? undefined : unmatched.splice(index, 1)[0];
+  };
+
+  // Untrusted sessions, anything that isn't an object is left for validation to reject
+  const sessions = agenda as unknown[] as (Record<string, unknown> | null)[];
+  const isSession = (session: unknown): session is Record<string, unknown> =>
+    typeof session === 'object' && session !== null;
+
+  // Explicit ids first, so a session matched by title can't take an id another one asked for
+  const ids = sessions.map((session) => {
+    const id = isSession(session) ? String(session._id ?? session.id ?? '') : '';
+    return id ? take(({ _id }) => String(_id) === id)?._id : undefined;
+  });
+  sessions.forEach((session, index) => {
+    if (ids[index] || !isSession(session)) return;
+    const sameSlot = ({ title, date, startTime }: IAgendaSession) =>
+      title === session.title && date === session.date && startTime === session.startTime;
+    ids[index] = (take(sameSlot) ?? take(({ title }) => title === session.title))?._id;
+  });
+
+  return sessions.map((session, index) =>
+    isSession(session) && ids[index] ? { ...session, _id: ids[index] } : session
+  ) as unknown as IAgendaSession[];
+}
+
+/**
+ * Attempts at saving an event before a slug collision is reported
+ */
+const SLUG_SAVE_ATTEMPTS = 5;
+
+/**
+ * Check whether saving failed because another event took the slug in the meantime
+ */
+export function isSlugCollision(error: unknown): boolean {
+  return isDuplicateKeyError(error) && error.keyValue?.slug !== undefined;
+}
+
+/**
+ * Save an event, picking the next free slug when a concurrent save took the one it generated
+ * The slug hook looks up taken slugs before inserting, so two events with the same title can race for one
+ * @throws Duplicate key error when the slug was given explicitly, or is still taken after SLUG_SAVE_ATTEMPTS
+ */
+export async function saveEvent(event: IEvent): Promise<IEvent> {
+  const { slug, previousSlugs } = event;
+  const generated = event.isNew ? !slug : event.isModified('title');
+  const taken: string[] = [];
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await event.save();
+    } catch (error) {
+      if (!isSlugCollision(error) || !generated || attempt >= SLUG_SAVE_ATTEMPTS) throw error;
+
+      // Have the slug hook generate the slug again, skipping the ones found taken
+      taken.push(event.slug);
+      event.$locals.takenSlugs = taken;
+      event.slug = slug;
+      event.previousSlugs = previousSlugs;
+    }
+  }
+}
+
+/**
+ * Messages reported when the unique slug index fires, the slug is derived from the title
+ */
+export const DUPLICATE_EVENT_MESSAGES = {
+  slug: 'An event with this title already exists',
+};
@@ -0,0 +1,239 @@
+import type { FilterQuery } from 'mongoose';
+
+import connectToDatabase from '@/lib/mongoose';
+import { Event, type IEvent } from '@/database';
+import { ApiError } from '@/lib/errors';
+import { EVENT_MODES, type EventMode } from '@/lib/event-rules';
+import { absoluteUrl, SITE_URL } from '@/lib/site';
+import { formatEventDateTime, resolveEventSchedule } from '@/lib/timezone';
+
+// Atom, RSS 2.0 and JSON Feed 1.1 serialization of newly published events
+
+/**
+ * Number of events in each feed, newest first
+ */
+const FEED_SIZE = 50;
+
+/**
+ * Authority of the tag: URIs used as entry ids, kept constant so ids survive host and slug changes (RFC 4151)
+ */
+const TAG_AUTHORITY = 'devevent.app,2025';
+
+export interface FeedFilter {
+  tags: string[]; // Events must have every tag
+  mode?: EventMode;
+}
+
+/**
+ * What every feed format needs to describe itself
+ */
+interface FeedInfo {
+  title: string;
+  description: string;
+  selfUrl: string; // Absolute URL of the feed, including the filter
+  updated: Date; // Last time any event in the feed changed
+}
+
+/**
+ * Parse the tag (repeatable) and mode query params shared by every feed
+ * @throws ApiError - 400 when the mode is unknown
+ */
+export function parseFeedFilter(searchParams: URLSearchParams): FeedFilter {
+  const mode = searchParams.get('mode')?.trim().toLowerCase() || undefined;
+  if (mode && !EVENT_MODES.includes(mode as EventMode)) {
+    throw new ApiError(400, 'Invalid feed parameters', { mode: 'Mode must be online, offline, or hybrid' });
+  }
+
+  const tags = searchParams
+    .getAll('tag')
+    .map((tag) => tag.trim().toLowerCase())
+    .filter(Boolean);
+
+  return { tags: [...new Set(tags)], mode: mode as EventMode | undefined };
+}
+
+/**
+ * Most recently published events matching a feed filter
+ */
+export async function getFeedEvents({ tags, mode }: FeedFilter): Promise<IEvent[]> {
+  await connectToDatabase();
+
+  const filter: FilterQuery<IEvent> = { cancelledAt: null };
+  if (tags.length > 0) filter.tags = { $all: tags };
+  if (mode) filter.mode = mode;
+
+  return Event.find(filter).sort({ createdAt: -1, _id: -1 }).limit(FEED_SIZE).lean<IEvent[]>();
+}
+
+/**
+ * Describe a feed, e.g. "DevEvent: react, online events"
+ * @param path - Path of the feed, e.g. "/feed.xml"
+ */
+export function describeFeed(path: string, { tags, mode }: FeedFilter, events: IEvent[]): FeedInfo {
+  const query = new URLSearchParams();
+  tags.forEach((tag) => query.append('tag', tag));
+  if (mode) query.set('mode', mode);
+
+  const parts = [...tags, ...(mode ? [`${mode} events`] : [])];
+  const updated = events.reduce((latest, { updatedAt }) => Math.max(latest, new Date(updatedAt).getTime()), 0);
+
+  return {
+    title: parts.length > 0 ? `DevEvent: ${parts.join(', ')}` : 'DevEvent',
+    description: 'Newly published hackathons, meetups and conferences on DevEvent',
+    selfUrl: absoluteUrl(query.size > 0 ? `${path}?${query}` : path),
+    updated: updated > 0 ? new Date(updated) : new Date(),
+  };
+}
+
+/**
+ * Escape text for XML character data and attribute values, also safe inside the HTML it carries
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Permanent id of an event's feed entry
+ */
+function entryId(event: Pick<IEvent, '_id'>): string {
+  return `tag:${TAG_AUTHORITY}:event:${event._id}`;
+}
+
+const eventUrl = (event: Pick<IEvent, 'slug'>) => absoluteUrl(`/events/${event.slug}`);
+
+/**
+ * Images may be stored as paths on this site, feed readers need absolute URLs
+ */
+const imageUrl = (event: Pick<IEvent, 'image'>) =>
+  event.image.startsWith('/') ? absoluteUrl(event.image) : event.image;
+
+/**
+ * HTML body of an entry: image, when and where, then the description
+ */
+function entryHtml(event: IEvent): string {
+  const { startsAt } = resolveEventSchedule(event);
+  const when = formatEventDateTime(startsAt, event.timezone ?? 'UTC');
+  const where = `${event.venue}, ${event.location}`;
+
+  return [
+    `<p><img src="${escapeXml(imageUrl(event))}" alt="${escapeXml(event.title)}" /></p>`,
+    `<p><strong>${escapeXml(when)}</strong> · ${escapeXml(where)} · ${escapeXml(event.mode)}</p>`,
+    `<p>${escapeXml(event.description)}</p>`,
+  ].join('');
+}
+
+/**
+ * Serialize events as an Atom feed (RFC 4287)
+ */
+export function buildAtomFeed(events: IEvent[], info: FeedInfo): string {
+  const entries = events.map((event) =>
+    [
+      '  <entry>',
+      `    <id>${entryId(event)}</id>`,
+      `    <title>${escapeXml(event.title)}</title>`,
+      `    <link rel="alternate" type="text/html" href="${escapeXml(eventUrl(event))}"/>`,
+      `    <published>${new Date(event.createdAt).toISOString()}</published>`,
+      `    <updated>${new Date(event.updatedAt).toISOString()}</updated>`,
+      `    <author><name>${escapeXml(event.organizer)}</name></author>`,
+      `    <summary>${escapeXml(event.overview)}</summary>`,
+      `    <content type="html">${escapeXml(entryHtml(event))}</content>`,
+      ...event.tags.map((tag) => `    <category term="${escapeXml(tag)}"/>`),
+      '  </entry>',
+    ].join('\n')
+  );
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${escapeXml(info.selfUrl)}</id>`,
+    `  <title>${escapeXml(info.title)}</title>`,
+    `  <subtitle>${escapeXml(info.description)}</subtitle>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(info.selfUrl)}"/>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(SITE_URL)}"/>`,
+    `  <updated>${info.updated.toISOString()}</updated>`,
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Serialize events as an RSS 2.0 feed
+ * RSS has no per-item updated date, so lastBuildDate carries the latest updatedAt
+ */
+export function buildRssFeed(events: IEvent[], info: FeedInfo): string {
+  const items = events.map((event) =>
+    [
+      '    <item>',
+      `      <title>${escapeXml(event.title)}</title>`,
+      `      <link>${escapeXml(eventUrl(event))}</link>`,
+      `      <guid isPermaLink="false">${entryId(event)}</guid>`,
+      `      <pubDate>${new Date(event.createdAt).toUTCString()}</pubDate>`,
+      `      <description>${escapeXml(entryHtml(event))}</description>`,
+      ...event.tags.map((tag) => `      <category>${escapeXml(tag)}</category>`),
+      '    </item>',
+    ].join('\n')
+  );
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '  <channel>',
+    `    <title>${escapeXml(info.title)}</title>`,
+    `    <link>${escapeXml(SITE_URL)}</link>`,
+    `    <description>${escapeXml(info.description)}</description>`,
+    `    <atom:link rel="self" type="application/rss+xml" href="${escapeXml(info.selfUrl)}"/>`,
+    `    <lastBuildDate>${info.updated.toUTCString()}</lastBuildDate>`,
+    '    <language>en</language>',
+    ...items,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Serialize events as a JSON Feed 1.1 document
+ */
+export function buildJsonFeed(events: IEvent[], info: FeedInfo): string {
+  const feed = {
+    version: 'https://jsonfeed.org/version/1.1',
+    title: info.title,
+    description: info.description,
+    home_page_url: SITE_URL,
+    feed_url: info.selfUrl,
+    language: 'en',
+    items: events.map((event) => ({
+      id: entryId(event),
+      url: eventUrl(event),
+      title: event.title,
+      summary: event.overview,
+      content_html: entryHtml(event),
+      image: imageUrl(event),
+      date_published: new Date(event.createdAt).toISOString(),
+      date_modified: new Date(event.updatedAt).toISOString(),
+      tags: event.tags,
+      authors: [{ name: event.organizer }],
+    })),
+  };
+
+  return JSON.stringify(feed, null, 2);
+}
+
+/**
+ * Build the response for a feed, cached by the CDN for an hour like the calendar feed
+ */
+export function feedResponse(body: string, contentType: string): Response {
+  return new Response(body, {
+    status: 200,
+    headers: {
+      'Content-Type': `${contentType}; charset=utf-8`,
+      'Cache-Control': 'public, max-age=0, s-maxage=3600',
+    },
+  });
+}
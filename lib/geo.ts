@@ -0,0 +1,48 @@
+// Geographic helpers for event locations: coordinate checks, GeoJSON points and parsing free-text locations
+
+/**
+ * Radius used by MongoDB's spherical geometry ($centerSphere), in kilometers
+ */
+export const EARTH_RADIUS_KM = 6378.1;
+
+export const DEFAULT_NEAR_RADIUS_KM = 50;
+export const MAX_NEAR_RADIUS_KM = 500;
+
+/**
+ * GeoJSON point, coordinates are [longitude, latitude] in that order
+ */
+export interface GeoPoint {
+  type: 'Point';
+  coordinates: [number, number];
+}
+
+export function isValidLatitude(latitude: number): boolean {
+  return Number.isFinite(latitude) && latitude >= -90 && latitude <= 90;
+}
+
+export function isValidLongitude(longitude: number): boolean {
+  return Number.isFinite(longitude) && longitude >= -180 && longitude <= 180;
+}
+
+export function toGeoPoint(latitude: number, longitude: number): GeoPoint {
+  return { type: 'Point', coordinates: [longitude, latitude] };
+}
+
+/**
+ * Read the city and country out of a free-form location such as "Mountain View, USA + Online"
+ * @returns online - Whether the location mentions that the event can also be joined online
+ */
+export function parseLocation(location: string): { city: string | null; country: string | null; online: boolean } {
+  const online = /(^|\+\s*)online$/i.test(location.trim());
+  const place = location.replace(/(^|\s*\+\s*)online$/i, '').trim();
+  const parts = place
+    .split(',')
+    .map((part) => part.trim())
+    .filter(Boolean);
+
+  return {
+    city: parts[0] ?? null,
+    country: parts.length > 1 ? parts[parts.length - 1] : null,
+    online,
+  };
+}
@@ -0,0 +1,109 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import type { IEvent } from '@/database';
+import { buildCalendar, escapeText, foldLine, formatUtcDateTime } from '@/lib/ical';
+
+const OPTIONS = { baseUrl: 'https://devevent.app' };
+
+function event(overrides: Partial<IEvent> = {}): IEvent {
+  return {
+    _id: '6650a1b2c3d4e5f6a7b8c9d0',
+    slug: 'react-conf',
+    title: 'React Conf',
+    overview: 'Overview',
+    description: 'Description',
+    venue: 'Hall A',
+    location: 'Berlin, Germany',
+    tags: ['react'],
+    startsAt: new Date('2026-05-01T09:00:00Z'),
+    endsAt: new Date('2026-05-01T17:00:00Z'),
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-02T00:00:00Z'),
+    ...overrides,
+  } as unknown as IEvent;
+}
+
+function contentLines(calendar: string): string[] {
+  return calendar.replace(/\r\n /g, '').split('\r\n');
+}
+
+describe('escapeText', () => {
+  it('escapes backslashes, semicolons, commas and newlines', () => {
+    assert.equal(escapeText('a\\b; c, d\ne\r\nf'), 'a\\\\b\\; c\\, d\\ne\\nf');
+  });
+});
+
+describe('foldLine', () => {
+  it('leaves lines of up to 75 octets alone', () => {
+    const line = 'x'.repeat(75);
+    assert.equal(foldLine(line), line);
+  });
+
+  it('folds longer lines into chunks that start with a space', () => {
+    const folded = foldLine('x'.repeat(200));
+    const chunks = folded.split('\r\n');
+
+    assert.deepEqual(chunks.map((chunk) => Buffer.byteLength(chunk)), [75, 75, 52]);
+    assert.ok(chunks.slice(1).every((chunk) => chunk.startsWith(' ')));
+    assert.equal(folded.replace(/\r\n /g, ''), 'x'.repeat(200));
+  });
+
+  it('never splits a multi-byte character', () => {
+    const line = 'é'.repeat(60); // 2 octets each
+    const chunks = foldLine(line).split('\r\n');
+
+    assert.ok(chunks.every((chunk) => Buffer.byteLength(chunk) <= 75));
+    assert.equal(chunks.map((chunk, i) => (i === 0 ? chunk : chunk.slice(1))).join(''), line);
+  });
+});
+
+describe('formatUtcDateTime', () => {
+  it('formats a timestamp as a UTC DATE-TIME', () => {
+    assert.equal(formatUtcDateTime(new Date('2026-05-01T09:30:15.123Z')), '20260501T093015Z');
+  });
+});
+
+describe('buildCalendar', () => {
+  it('ends every line with CRLF and wraps the events in a VCALENDAR', () => {
+    const calendar = buildCalendar([event()], OPTIONS);
+
+    assert.ok(calendar.endsWith('\r\n'));
+    assert.equal(calendar.replace(/\r\n/g, '').includes('\n'), false);
+
+    const lines = contentLines(calendar);
+    assert.equal(lines[0], 'BEGIN:VCALENDAR');
+    assert.equal(lines.at(-2), 'END:VCALENDAR');
+  });
+
+  it('writes the UTC schedule, a stable UID and escaped text', () => {
+    const lines = contentLines(buildCalendar([event({ title: 'React, Vue; and more' })], OPTIONS));
+
+    assert.ok(lines.includes('UID:6650a1b2c3d4e5f6a7b8c9d0@devevent'));
+    assert.ok(lines.includes('DTSTART:20260501T090000Z'));
+    assert.ok(lines.includes('DTEND:20260501T170000Z'));
+    assert.ok(lines.includes('SUMMARY:React\\, Vue\\; and more'));
+    assert.ok(lines.includes('URL:https://devevent.app/events/react-conf'));
+  });
+
+  it('publishes confirmed events with the initial sequence', () => {
+    const lines = contentLines(buildCalendar([event()], OPTIONS));
+
+    assert.ok(lines.includes('STATUS:CONFIRMED'));
+    assert.ok(lines.includes('SEQUENCE:0'));
+  });
+
+  it('publishes cancelled dates as cancelled with a higher sequence', () => {
+    const lines = contentLines(buildCalendar([event({ cancelledAt: new Date('2026-04-01T00:00:00Z') })], OPTIONS));
+
+    assert.ok(lines.includes('STATUS:CANCELLED'));
+    assert.ok(lines.includes('SEQUENCE:1'));
+  });
+
+  it('names the calendar and its refresh interval when asked to', () => {
+    const lines = contentLines(buildCalendar([], { ...OPTIONS, name: 'DevEvent: react', refreshInterval: 'PT1H' }));
+
+    assert.ok(lines.includes('X-WR-CALNAME:DevEvent: react'));
+    assert.ok(lines.includes('REFRESH-INTERVAL;VALUE=DURATION:PT1H'));
+  });
+});
@@ -0,0 +1,141 @@
+import type { IEvent } from '@/database';
+import { resolveEventSchedule } from '@/lib/timezone';
+
+// RFC 5545 (iCalendar) serialization for events
+
+const CRLF = '\r\n';
+
+/**
+ * Content lines longer than this many octets must be folded (RFC 5545 §3.1)
+ */
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Domain part of event UIDs, kept constant so UIDs survive host and slug changes
+ */
+const UID_DOMAIN = 'devevent';
+
+const PRODID = '-//DevEvent//Events//EN';
+
+export interface CalendarOptions {
+  baseUrl: string; // Origin used to build event URLs, e.g. "https://devevent.app"
+  name?: string; // Calendar name shown by clients that support X-WR-CALNAME
+  refreshInterval?: string; // How often subscribers should poll, as an ISO 8601 duration (e.g. "PT1H")
+}
+
+/**
+ * Escape a TEXT value: backslashes, semicolons, commas and newlines (RFC 5545 §3.3.11)
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+/**
+ * Fold a content line into chunks of at most 75 octets, continuation lines start with a space
+ * Never splits a multi-byte UTF-8 character
+ */
+export function foldLine(line: string): string {
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines lose one octet to the leading space
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+
+    if (octets + size > limit) {
+      lines.push(current);
+      current = '';
+      octets = 0;
+    }
+
+    current += char;
+    octets += size;
+  }
+  lines.push(current);
+
+  return lines.join(`${CRLF} `);
+}
+
+/**
+ * Format a UTC timestamp as a DATE-TIME value, e.g. 20260501T090000Z
+ */
+export function formatUtcDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Stable UID for an event, derived from its id so updates replace the entry in calendar clients
+ */
+export function eventUid(event: Pick<IEvent, '_id'>): string {
+  return `${event._id}@${UID_DOMAIN}`;
+}
+
+/**
+ * Build the content lines of a VEVENT component
+ * Cancelled dates of a series get a higher SEQUENCE, so clients apply the cancellation over the copy they have
+ */
+function buildVEvent(event: IEvent, { baseUrl }: CalendarOptions): string[] {
+  const url = `${baseUrl}/events/${event.slug}`;
+  const { startsAt, endsAt } = resolveEventSchedule(event);
+  const cancelled = Boolean(event.cancelledAt);
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${eventUid(event)}`,
+    `DTSTAMP:${formatUtcDateTime(new Date(event.updatedAt))}`,
+    `CREATED:${formatUtcDateTime(new Date(event.createdAt))}`,
+    `LAST-MODIFIED:${formatUtcDateTime(new Date(event.updatedAt))}`,
+    `SEQUENCE:${cancelled ? 1 : 0}`,
+    `DTSTART:${formatUtcDateTime(startsAt)}`,
+    `DTEND:${formatUtcDateTime(endsAt)}`,
+    `SUMMARY:${escapeText(event.title)}`,
+    `DESCRIPTION:${escapeText(`${event.overview}\n\n${event.description}\n\n${url}`)}`,
+    `LOCATION:${escapeText(`${event.venue}, ${event.location}`)}`,
+    `URL:${url}`,
+    `CATEGORIES:${event.tags.map(escapeText).join(',')}`,
+    `STATUS:${cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    'END:VEVENT',
+  ];
+}
+
+/**
+ * Serialize events as a VCALENDAR document with folded CRLF-terminated lines
+ */
+export function buildCalendar(events: IEvent[], options: CalendarOptions): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...(options.name ? [`X-WR-CALNAME:${escapeText(options.name)}`] : []),
+    ...(options.refreshInterval
+      ? [`REFRESH-INTERVAL;VALUE=DURATION:${options.refreshInterval}`, `X-PUBLISHED-TTL:${options.refreshInterval}`]
+      : []),
+    ...events.flatMap((event) => buildVEvent(event, options)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join(CRLF) + CRLF;
+}
+
+/**
+ * Build the response for a calendar
+ * @param filename - When set, the calendar is served as a download instead of inline (for subscriptions)
+ */
+export function calendarResponse(body: string, filename?: string): Response {
+  return new Response(body, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': filename ? `attachment; filename="${filename}"` : 'inline',
+      'Cache-Control': 'public, max-age=0, s-maxage=3600',
+    },
+  });
+}
@@ -0,0 +1,146 @@
+// Static maps assembled from slippy map tiles (https://wiki.openstreetmap.org/wiki/Slippy_map_tilenames)
+// No map library or API key, the page only lays out tile images from the configured provider
+
+export const TILE_SIZE = 256;
+
+/**
+ * Tile providers, selected with the MAP_TILE_PROVIDER environment variable
+ * "custom" points MAP_TILE_URL at any tile server (e.g. one running next to the app), "none" disables map tiles
+ */
+export const MAP_TILE_PROVIDERS = ['osm', 'custom', 'none'] as const;
+
+export type MapTileProviderName = (typeof MAP_TILE_PROVIDERS)[number];
+
+export interface TileProvider {
+  name: string;
+  tileUrl(zoom: number, x: number, y: number): string;
+  attribution: string; // Shown under the map, most providers require it
+  maxZoom: number;
+}
+
+export interface MapTile {
+  url: string;
+  left: number; // Offset of the tile's top-left corner from the map's center, in pixels
+  top: number;
+}
+
+export interface StaticMapOptions {
+  width: number; // Largest width the map is shown at, tiles cover this area around the center
+  height: number;
+  zoom: number;
+}
+
+/**
+ * Fill a tile URL template such as "https://tiles.example.com/{z}/{x}/{y}.png"
+ */
+export function createTemplateTileProvider(
+  name: string,
+  template: string,
+  attribution: string,
+  maxZoom = 19
+): TileProvider {
+  return {
+    name,
+    tileUrl: (zoom, x, y) =>
+      template.replace('{z}', String(zoom)).replace('{x}', String(x)).replace('{y}', String(y)),
+    attribution,
+    maxZoom,
+  };
+}
+
+/**
+ * OpenStreetMap's public tiles, fine for light use under their tile usage policy
+ */
+export function createOsmTileProvider(): TileProvider {
+  return createTemplateTileProvider(
+    'osm',
+    'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
+    '© OpenStreetMap contributors'
+  );
+}
+
+let provider: TileProvider | null | undefined;
+
+/**
+ * Get the tile provider configured by MAP_TILE_PROVIDER (osm, custom or none), defaulting to osm
+ * @returns TileProvider | null - Null when map tiles are disabled, e.g. for offline deployments
+ */
+export function getTileProvider(): TileProvider | null {
+  if (provider !== undefined) return provider;
+
+  const name = process.env.MAP_TILE_PROVIDER ?? 'osm';
+  if (!MAP_TILE_PROVIDERS.includes(name as MapTileProviderName)) {
+    throw new Error(`Unknown MAP_TILE_PROVIDER "${name}", expected osm, custom or none`);
+  }
+
+  if (name === 'custom') {
+    if (!process.env.MAP_TILE_URL) {
+      throw new Error('Please define the MAP_TILE_URL environment variable inside .env');
+    }
+    provider = createTemplateTileProvider('custom', process.env.MAP_TILE_URL, process.env.MAP_TILE_ATTRIBUTION ?? '');
+  } else {
+    provider = name === 'osm' ? createOsmTileProvider() : null;
+  }
+
+  return provider;
+}
+
+/**
+ * Replace the configured tile provider, null disables map tiles
+ */
+export function setTileProvider(next: TileProvider | null | undefined): void {
+  provider = next;
+}
+
+/**
+ * Position of a coordinate on the Web Mercator world map at a zoom level, in pixels
+ */
+function project(latitude: number, longitude: number, zoom: number): { x: number; y: number } {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const sin = Math.sin((latitude * Math.PI) / 180);
+
+  return {
+    x: ((longitude + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  };
+}
+
+/**
+ * Tiles covering a map centered on a coordinate, positioned relative to the center
+ * Tiles wrap around the antimeridian, rows beyond the poles are left out
+ */
+export function getStaticMapTiles(
+  tileProvider: TileProvider,
+  latitude: number,
+  longitude: number,
+  { width, height, zoom }: StaticMapOptions
+): MapTile[] {
+  const z = Math.min(zoom, tileProvider.maxZoom);
+  const count = 2 ** z;
+  const center = project(latitude, longitude, z);
+
+  const firstX = Math.floor((center.x - width / 2) / TILE_SIZE);
+  const lastX = Math.floor((center.x + width / 2) / TILE_SIZE);
+  const firstY = Math.max(Math.floor((center.y - height / 2) / TILE_SIZE), 0);
+  const lastY = Math.min(Math.floor((center.y + height / 2) / TILE_SIZE), count - 1);
+
+  const tiles: MapTile[] = [];
+  for (let y = firstY; y <= lastY; y++) {
+    for (let x = firstX; x <= lastX; x++) {
+      tiles.push({
+        url: tileProvider.tileUrl(z, ((x % count) + count) % count, y),
+        left: Math.round(x * TILE_SIZE - center.x),
+        top: Math.round(y * TILE_SIZE - center.y),
+      });
+    }
+  }
+
+  return tiles;
+}
+
+/**
+ * Link to the coordinate on openstreetmap.org, for directions and a zoomable map
+ */
+export function getMapLink(latitude: number, longitude: number, zoom = 16): string {
+  return `https://www.openstreetmap.org/?mlat=${latitude}&mlon=${longitude}#map=${zoom}/${latitude}/${longitude}`;
+}
@@ -0,0 +1,38 @@
+// Event posters uploaded through the Create Event form
+
+/**
+ * Widths each uploaded poster is resized to, next/image picks the closest one for each screen
+ */
+export const POSTER_WIDTHS = [480, 960, 1440] as const;
+
+/**
+ * Largest poster that can be uploaded, in bytes
+ */
+export const POSTER_MAX_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Image types accepted for uploads, every poster is stored as WebP
+ */
+export const POSTER_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/avif'] as const;
+
+export type PosterMimeType = (typeof POSTER_MIME_TYPES)[number];
+
+/**
+ * Uploaded posters end in posters/<id>/<width>.webp
+ */
+const posterUrlRegex = /\/posters\/[\w-]+\/(\d+)\.webp$/;
+
+/**
+ * Whether an image URL points to an uploaded poster, as opposed to an external image
+ */
+export function isUploadedPoster(src: string): boolean {
+  return posterUrlRegex.test(src);
+}
+
+/**
+ * next/image loader for uploaded posters, serving the smallest generated width that covers the requested one
+ */
+export function posterLoader({ src, width }: { src: string; width: number }): string {
+  const size = POSTER_WIDTHS.find((candidate) => candidate >= width) ?? POSTER_WIDTHS[POSTER_WIDTHS.length - 1];
+  return src.replace(posterUrlRegex, (match, current) => match.replace(`${current}.webp`, `${size}.webp`));
+}
@@ -0,0 +1,86 @@
+import connectToDatabase from '@/lib/mongoose';
+import { Booking, Email, Event, type IEvent } from '@/database';
+import { cancelBooking } from '@/lib/bookings';
+import { enqueueEmail } from '@/lib/email/outbox';
+import { absoluteUrl } from '@/lib/site';
+import { signToken, verifyToken } from '@/lib/tokens';
+
+// Attendees can delete their data without an account, by confirming a link sent to their email
+
+export const DATA_DELETION_LINK_TTL_MINUTES = 60;
+
+export interface DataDeletionResult {
+  bookings: number; // Bookings deleted, active or cancelled
+  emails: number; // Outbox emails deleted, sent or still queued
+  promoted: number; // Waitlisted bookings that took over a freed seat
+  slugs: string[]; // Events whose booked counts changed
+}
+
+/**
+ * Build the link that confirms a data deletion request, valid for DATA_DELETION_LINK_TTL_MINUTES
+ */
+export function createDataDeletionUrl(email: string): string {
+  const token = signToken({
+    purpose: 'data-deletion',
+    subject: email,
+    expiresAt: new Date(Date.now() + DATA_DELETION_LINK_TTL_MINUTES * 60000),
+  });
+
+  return absoluteUrl(`/privacy/delete?token=${token}`);
+}
+
+/**
+ * Queue the email asking to confirm a data deletion request, at most one per email per minute
+ * The link itself is signed when the email is sent, so it never sits in the outbox
+ */
+export async function requestDataDeletion(email: string): Promise<void> {
+  const minute = Math.floor(Date.now() / 60000);
+
+  await enqueueEmail({ key: `data-deletion:${email}:${minute}`, template: 'data-deletion', data: { email } });
+}
+
+/**
+ * Email a data deletion link refers to
+ * @returns string | null - Null when the token is invalid or expired
+ */
+export function verifyDataDeletionToken(token: string): string | null {
+  return verifyToken(token, 'data-deletion')?.subject ?? null;
+}
+
+/**
+ * Delete every booking of an email, and the emails sent or queued for it
+ * Active bookings are cancelled first, so their seats go to the waitlist
+ * The email is also removed from the transfer history of bookings it handed over or received
+ */
+export async function deleteAttendeeData(email: string): Promise<DataDeletionResult> {
+  await connectToDatabase();
+
+  const active = await Booking.find({ email, status: 'active' }).select('_id eventId');
+
+  let promoted = 0;
+  for (const { _id } of active) {
+    const result = await cancelBooking(_id);
+    promoted += result?.promoted.length ?? 0;
+  }
+
+  const eventIds = [...new Set(active.map(({ eventId }) => String(eventId)))];
+  const events = await Event.find({ _id: { $in: eventIds } })
+    .select('slug')
+    .lean<Pick<IEvent, 'slug'>[]>();
+
+  const [bookings, emails] = await Promise.all([
+    Booking.deleteMany({ email }),
+    Email.deleteMany({ 'data.email': email }),
+    Booking.updateMany(
+      { $or: [{ 'transfers.from': email }, { 'transfers.to': email }] },
+      { $pull: { transfers: { $or: [{ from: email }, { to: email }] } } }
+    ),
+  ]);
+
+  return {
+    bookings: bookings.deletedCount,
+    emails: emails.deletedCount,
+    promoted,
+    slugs: events.map(({ slug }) => slug),
+  };
+}
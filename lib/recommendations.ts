@@ -0,0 +1,127 @@
+import { Types } from 'mongoose';
+import { unstable_cache } from 'next/cache';
+
+import connectToDatabase from '@/lib/mongoose';
+import { Event, type IEvent } from '@/database';
+import type { EventItem } from '@/lib/constants';
+import { EVENTS_CACHE_TAG, getUpcomingEvents, toEventItem } from '@/lib/events';
+import { parseLocation } from '@/lib/geo';
+import { resolveEventSchedule } from '@/lib/timezone';
+
+/**
+ * Number of similar events shown below an event
+ */
+export const SIMILAR_EVENTS_LIMIT = 3;
+
+/**
+ * Upcoming events considered as candidates, the soonest ones first
+ */
+const CANDIDATE_POOL_SIZE = 200;
+
+/**
+ * Events further apart than this get no points for being close in time
+ */
+const DATE_WINDOW_DAYS = 30;
+
+// Points for each way two events are alike
+const SCORES = {
+  sharedTag: 3,
+  sameMode: 1,
+  sameCity: 2,
+  sameCountry: 1,
+  closeDate: 2, // Scaled down linearly to 0 at DATE_WINDOW_DAYS apart
+};
+
+type ScoredEvent = Pick<IEvent, 'tags' | 'mode' | 'location' | 'city' | 'country'> & { startsAt: Date };
+
+/**
+ * City and country of an event, lowercased
+ * Falls back to parsing the location for events saved before they were stored separately
+ */
+function placeOf(event: ScoredEvent) {
+  const parsed = parseLocation(event.location);
+  return {
+    city: (event.city ?? parsed.city)?.toLowerCase() ?? null,
+    country: (event.country ?? parsed.country)?.toLowerCase() ?? null,
+  };
+}
+
+/**
+ * How alike two events are, higher is more similar
+ * @returns number - 0 when they share neither a tag nor a city, however close their dates
+ */
+export function similarityScore(event: ScoredEvent, candidate: ScoredEvent): number {
+  const tags = new Set(event.tags);
+  const sharedTags = candidate.tags.filter((tag) => tags.has(tag)).length;
+
+  const location = placeOf(event);
+  const candidateLocation = placeOf(candidate);
+  const sameCity = location.city !== null && location.city === candidateLocation.city;
+  const sameCountry = location.country !== null && location.country === candidateLocation.country;
+
+  if (sharedTags === 0 && !sameCity) return 0;
+
+  const daysApart = Math.abs(event.startsAt.getTime() - candidate.startsAt.getTime()) / (24 * 60 * 60000);
+
+  return (
+    sharedTags * SCORES.sharedTag +
+    (event.mode === candidate.mode ? SCORES.sameMode : 0) +
+    (sameCity ? SCORES.sameCity : sameCountry ? SCORES.sameCountry : 0) +
+    SCORES.closeDate * Math.max(0, 1 - daysApart / DATE_WINDOW_DAYS)
+  );
+}
+
+/**
+ * Upcoming events most similar to the given one, by shared tags, mode, location and date
+ * Not cached, so it also works outside of Next.js, e.g. when rendering emails
+ */
+export async function findSimilarEvents(event: IEvent, limit = SIMILAR_EVENTS_LIMIT): Promise<IEvent[]> {
+  // Other dates of the same series aren't recommendations, and other series count once, with their next date
+  const seen = new Set([String(event.seriesId ?? event._id)]);
+  const candidates = (await getUpcomingEvents({ limit: CANDIDATE_POOL_SIZE })).filter(({ _id, seriesId }) => {
+    const key = String(seriesId ?? _id);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  const source = { ...event, startsAt: resolveEventSchedule(event).startsAt };
+
+  return candidates
+    .map((candidate) => ({
+      candidate,
+      score: similarityScore(source, { ...candidate, startsAt: resolveEventSchedule(candidate).startsAt }),
+    }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * Similar events of an event, cached per event in the Next data cache
+ * Every event change (including its tags) invalidates the cache through EVENTS_CACHE_TAG
+ */
+const getCachedSimilarEvents = unstable_cache(
+  async (eventId: string): Promise<EventItem[]> => {
+    await connectToDatabase();
+
+    const event = await Event.findById(eventId).lean<IEvent>();
+    if (!event) return [];
+
+    // A few extra, so events that end while cached can be dropped without leaving the section short
+    return (await findSimilarEvents(event, SIMILAR_EVENTS_LIMIT * 2)).map(toEventItem);
+  },
+  ['similar-events'],
+  { tags: [EVENTS_CACHE_TAG], revalidate: 3600 }
+);
+
+/**
+ * Upcoming events similar to the given one, for the "Similar events" section
+ */
+export async function getSimilarEvents(eventId: Types.ObjectId, limit = SIMILAR_EVENTS_LIMIT): Promise<EventItem[]> {
+  const events = await getCachedSimilarEvents(String(eventId));
+  const now = Date.now();
+
+  return events.filter(({ endsAt }) => new Date(endsAt).getTime() > now).slice(0, limit);
+}
@@ -0,0 +1,117 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import {
+  describeRecurrence,
+  expandRecurrence,
+  formatRRule,
+  parseRRule,
+  validateRecurrence,
+  type RecurrenceRule,
+} from '@/lib/recurrence';
+
+describe('expandRecurrence', () => {
+  it('repeats weekly series every interval weeks', () => {
+    assert.deepEqual(expandRecurrence('2026-01-05', { frequency: 'weekly', interval: 2 }, '2026-02-16'), [
+      '2026-01-05',
+      '2026-01-19',
+      '2026-02-02',
+      '2026-02-16',
+    ]);
+  });
+
+  it('stops after count dates', () => {
+    assert.deepEqual(expandRecurrence('2026-01-05', { frequency: 'weekly', interval: 1, count: 3 }, '2027-01-01'), [
+      '2026-01-05',
+      '2026-01-12',
+      '2026-01-19',
+    ]);
+  });
+
+  it('stops at until or through, whichever comes first', () => {
+    const rule: RecurrenceRule = { frequency: 'monthly', interval: 1, until: '2026-03-15' };
+
+    assert.deepEqual(expandRecurrence('2026-01-15', rule, '2026-12-31'), ['2026-01-15', '2026-02-15', '2026-03-15']);
+    assert.deepEqual(expandRecurrence('2026-01-15', rule, '2026-02-28'), ['2026-01-15', '2026-02-15']);
+  });
+
+  it('skips months without the first date’s day, without counting them', () => {
+    assert.deepEqual(expandRecurrence('2026-01-31', { frequency: 'monthly', interval: 1, count: 4 }, '2027-01-01'), [
+      '2026-01-31',
+      '2026-03-31',
+      '2026-05-31',
+      '2026-07-31',
+    ]);
+  });
+
+  it('crosses years and leap days', () => {
+    assert.deepEqual(expandRecurrence('2027-12-29', { frequency: 'weekly', interval: 9, count: 2 }, '2029-01-01'), [
+      '2027-12-29',
+      '2028-03-01',
+    ]);
+    assert.deepEqual(expandRecurrence('2028-02-29', { frequency: 'monthly', interval: 12, count: 2 }, '2033-01-01'), [
+      '2028-02-29',
+      '2032-02-29',
+    ]);
+  });
+});
+
+describe('RRULE values', () => {
+  it('round-trips a rule', () => {
+    const rule: RecurrenceRule = { frequency: 'weekly', interval: 2, count: 10, until: undefined };
+
+    assert.equal(formatRRule(rule), 'FREQ=WEEKLY;INTERVAL=2;COUNT=10');
+    assert.deepEqual(parseRRule(formatRRule(rule)), rule);
+  });
+
+  it('parses UNTIL as a date, with or without the RRULE: prefix', () => {
+    assert.deepEqual(parseRRule('RRULE:FREQ=MONTHLY;UNTIL=20261231T235959Z'), {
+      frequency: 'monthly',
+      interval: 1,
+      count: undefined,
+      until: '2026-12-31',
+    });
+  });
+
+  it('rejects parts this app does not support', () => {
+    assert.equal(parseRRule('FREQ=DAILY'), null);
+    assert.equal(parseRRule('FREQ=WEEKLY;BYDAY=MO'), null);
+    assert.equal(parseRRule('FREQ=WEEKLY;UNTIL=soon'), null);
+    assert.equal(parseRRule('INTERVAL=2'), null);
+  });
+});
+
+describe('validateRecurrence', () => {
+  it('accepts a valid rule', () => {
+    assert.deepEqual(validateRecurrence({ frequency: 'monthly', interval: 1, count: 12 }, '2026-01-01'), {});
+  });
+
+  it('reports each invalid property', () => {
+    const errors = validateRecurrence({ frequency: 'daily' as 'weekly', interval: 0, count: 1 });
+
+    assert.deepEqual(Object.keys(errors).sort(), ['count', 'frequency', 'interval']);
+  });
+
+  it('rejects setting both count and until', () => {
+    const errors = validateRecurrence({ frequency: 'weekly', interval: 1, count: 5, until: '2026-12-31' });
+
+    assert.ok(errors.count);
+  });
+
+  it('rejects an until that is not after the first date', () => {
+    const errors = validateRecurrence({ frequency: 'weekly', interval: 1, until: '2026-01-01' }, '2026-01-01');
+
+    assert.ok(errors.until);
+  });
+});
+
+describe('describeRecurrence', () => {
+  it('describes the interval and how the series ends', () => {
+    assert.equal(describeRecurrence({ frequency: 'weekly', interval: 1 }), 'Weekly');
+    assert.equal(describeRecurrence({ frequency: 'weekly', interval: 2, count: 10 }), 'Every 2 weeks, 10 times');
+    assert.equal(
+      describeRecurrence({ frequency: 'monthly', interval: 1, until: '2026-12-31' }),
+      'Monthly until Dec 31, 2026'
+    );
+  });
+});
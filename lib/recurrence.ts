@@ -0,0 +1,136 @@
+// Recurrence rules for event series, a subset of RFC 5545 RRULE (FREQ, INTERVAL, COUNT and UNTIL)
+
+import type { FieldErrors } from '@/lib/errors';
+
+export const RECURRENCE_FREQUENCIES = ['weekly', 'monthly'] as const;
+
+export type RecurrenceFrequency = (typeof RECURRENCE_FREQUENCIES)[number];
+
+/**
+ * Most occurrences a series can have, and the largest interval between two of them
+ */
+export const MAX_SERIES_OCCURRENCES = 100;
+export const MAX_RECURRENCE_INTERVAL = 12;
+
+/**
+ * How often a series repeats, starting from the date of its first occurrence
+ * Without count or until, the series repeats until the organizer ends it
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // Every `interval` weeks or months
+  count?: number; // Total number of occurrences, including the first
+  until?: string; // YYYY-MM-DD, last day an occurrence may fall on
+}
+
+const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Check a rule, using the same messages for the form and the API
+ * @returns FieldErrors - Keyed by rule property, empty when the rule is valid
+ */
+export function validateRecurrence(rule: RecurrenceRule, startDate?: string): FieldErrors {
+  const errors: FieldErrors = {};
+
+  if (!RECURRENCE_FREQUENCIES.includes(rule.frequency)) errors.frequency = 'Repeat must be weekly or monthly';
+  if (!Number.isInteger(rule.interval) || rule.interval < 1 || rule.interval > MAX_RECURRENCE_INTERVAL) {
+    errors.interval = `Interval must be a whole number between 1 and ${MAX_RECURRENCE_INTERVAL}`;
+  }
+
+  if (rule.count !== undefined && rule.until !== undefined) {
+    errors.count = 'Set either a number of dates or a last date, not both';
+  } else if (rule.count !== undefined) {
+    if (!Number.isInteger(rule.count) || rule.count < 2 || rule.count > MAX_SERIES_OCCURRENCES) {
+      errors.count = `Number of dates must be a whole number between 2 and ${MAX_SERIES_OCCURRENCES}`;
+    }
+  } else if (rule.until !== undefined) {
+    if (!dateRegex.test(rule.until)) errors.until = 'Last date must be in YYYY-MM-DD format';
+    else if (startDate && rule.until <= startDate) errors.until = 'Last date must be after the first date';
+  }
+
+  return errors;
+}
+
+/**
+ * Serialize a rule as an RRULE value, e.g. "FREQ=WEEKLY;INTERVAL=2;COUNT=10"
+ */
+export function formatRRule({ frequency, interval, count, until }: RecurrenceRule): string {
+  return [
+    `FREQ=${frequency.toUpperCase()}`,
+    `INTERVAL=${interval}`,
+    ...(count !== undefined ? [`COUNT=${count}`] : []),
+    ...(until !== undefined ? [`UNTIL=${until.replace(/-/g, '')}`] : []),
+  ].join(';');
+}
+
+/**
+ * Parse an RRULE value such as "FREQ=MONTHLY;UNTIL=20261231", with or without the "RRULE:" prefix
+ * @returns RecurrenceRule | null - Null when the value uses parts this app doesn't support
+ */
+export function parseRRule(value: string): RecurrenceRule | null {
+  const parts = new Map<string, string>();
+  for (const part of value.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean)) {
+    const [key, val] = part.split('=');
+    if (!key || val === undefined) return null;
+    parts.set(key.toUpperCase(), val);
+  }
+
+  const frequency = parts.get('FREQ')?.toLowerCase();
+  if (!RECURRENCE_FREQUENCIES.includes(frequency as RecurrenceFrequency)) return null;
+  if ([...parts.keys()].some((key) => !['FREQ', 'INTERVAL', 'COUNT', 'UNTIL'].includes(key))) return null;
+
+  const until = parts.get('UNTIL')?.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (parts.has('UNTIL') && !until) return null;
+
+  return {
+    frequency: frequency as RecurrenceFrequency,
+    interval: Number(parts.get('INTERVAL') ?? 1),
+    count: parts.has('COUNT') ? Number(parts.get('COUNT')) : undefined,
+    until: until ? `${until[1]}-${until[2]}-${until[3]}` : undefined,
+  };
+}
+
+/**
+ * Describe a rule for people, e.g. "Every 2 weeks, 10 times" or "Monthly until Dec 31, 2026"
+ */
+export function describeRecurrence({ frequency, interval, count, until }: RecurrenceRule): string {
+  const unit = frequency === 'weekly' ? 'week' : 'month';
+  const every = interval === 1 ? (frequency === 'weekly' ? 'Weekly' : 'Monthly') : `Every ${interval} ${unit}s`;
+
+  if (count !== undefined) return `${every}, ${count} times`;
+  if (until !== undefined) {
+    const end = new Intl.DateTimeFormat('en-US', { timeZone: 'UTC', dateStyle: 'medium' }).format(
+      new Date(`${until}T00:00:00Z`)
+    );
+    return `${every} until ${end}`;
+  }
+
+  return every;
+}
+
+/**
+ * Dates of a series' occurrences, from its first date up to and including `through`
+ * Monthly series skip months that don't have the first date's day (e.g. the 31st), as RRULE does
+ * @param through - YYYY-MM-DD, generating stops here even if the rule goes on
+ */
+export function expandRecurrence(startDate: string, rule: RecurrenceRule, through: string): string[] {
+  const [year, month, day] = startDate.split('-').map(Number);
+  const last = rule.until && rule.until < through ? rule.until : through;
+
+  const dates: string[] = [];
+  for (let step = 0; dates.length < (rule.count ?? Infinity); step++) {
+    const date =
+      rule.frequency === 'weekly'
+        ? new Date(Date.UTC(year, month - 1, day + step * 7 * rule.interval))
+        : new Date(Date.UTC(year, month - 1 + step * rule.interval, day));
+
+    // Date rolled a missing day over into the next month
+    if (rule.frequency === 'monthly' && date.getUTCDate() !== day) continue;
+
+    const iso = date.toISOString().split('T')[0];
+    if (iso > last) break;
+    dates.push(iso);
+  }
+
+  return dates;
+}
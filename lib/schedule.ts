@@ -0,0 +1,73 @@
+// Personal schedule: the sessions an attendee saved, kept in their browser's local storage
+
+/**
+ * Local storage key holding the saved session ids, per event id
+ */
+export const SCHEDULE_STORAGE_KEY = 'devevent_schedule';
+
+type Schedule = Record<string, string[]>;
+
+const NO_SESSIONS: string[] = [];
+
+const listeners = new Set<() => void>();
+
+// useSyncExternalStore needs the same value back until the schedule changes
+let cached: { raw: string | null; schedule: Schedule } | null = null;
+
+/**
+ * Get notified when the attendee saves or removes a session, in the shape useSyncExternalStore expects
+ * Also follows changes made in other tabs
+ * @returns Function that stops the notifications
+ */
+export function subscribeToSchedule(listener: () => void): () => void {
+  const onStorage = (e: StorageEvent) => {
+    if (e.key === SCHEDULE_STORAGE_KEY) listener();
+  };
+
+  listeners.add(listener);
+  window.addEventListener('storage', onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', onStorage);
+  };
+}
+
+function readAll(): Schedule {
+  const raw = window.localStorage.getItem(SCHEDULE_STORAGE_KEY);
+  if (cached?.raw === raw) return cached.schedule;
+
+  let schedule: Schedule = {};
+  try {
+    const parsed = raw ? JSON.parse(raw) : {};
+    if (typeof parsed === 'object' && parsed !== null) schedule = parsed;
+  } catch {
+    // Ignore a corrupted value, saving a session overwrites it
+  }
+
+  cached = { raw, schedule };
+  return schedule;
+}
+
+/**
+ * Ids of the sessions the attendee saved for an event
+ */
+export function readSchedule(eventId: string): string[] {
+  if (typeof window === 'undefined') return NO_SESSIONS;
+
+  const sessionIds = readAll()[eventId];
+  return Array.isArray(sessionIds) ? sessionIds : NO_SESSIONS;
+}
+
+/**
+ * Add a session to the attendee's schedule, or remove it when it's already there
+ */
+export function toggleSession(eventId: string, sessionId: string): void {
+  const saved = readSchedule(eventId);
+  const next = saved.includes(sessionId) ? saved.filter((id) => id !== sessionId) : [...saved, sessionId];
+
+  const schedule = { ...readAll(), [eventId]: next };
+  if (next.length === 0) delete schedule[eventId];
+
+  window.localStorage.setItem(SCHEDULE_STORAGE_KEY, JSON.stringify(schedule));
+  listeners.forEach((listener) => listener());
+}
@@ -0,0 +1,374 @@
+import { Types } from 'mongoose';
+
+import connectToDatabase from '@/lib/mongoose';
+import { Booking, Event, Series, type IEvent, type ISeries } from '@/database';
+import {
+  cancelEventBookings,
+  deleteEventBookings,
+  fillFromWaitlist,
+  rescheduleReminders,
+  syncBookedCount,
+} from '@/lib/bookings';
+import type { EventItem } from '@/lib/constants';
+import { ApiError, isDuplicateKeyError } from '@/lib/errors';
+import { normalizeDate } from '@/lib/event-rules';
+import {
+  EDITABLE_EVENT_FIELDS,
+  isSlugCollision,
+  keepSessionIds,
+  saveEvent,
+  toEventItem,
+  today,
+  type EventInput,
+} from '@/lib/events';
+import {
+  describeRecurrence,
+  expandRecurrence,
+  parseRRule,
+  validateRecurrence,
+  type RecurrenceRule,
+} from '@/lib/recurrence';
+
+/**
+ * How far ahead occurrences are scheduled, /api/cron/series keeps moving the horizon forward
+ */
+export const SERIES_HORIZON_DAYS = 90;
+
+/**
+ * Number of upcoming dates listed on the page of an occurrence
+ */
+const SERIES_DATES_LIMIT = 6;
+
+/**
+ * Event fields every occurrence of a series shares, dates come from the recurrence and featuring is per event
+ */
+export const SERIES_TEMPLATE_FIELDS = EDITABLE_EVENT_FIELDS.filter(
+  (field) => !['date', 'endDate', 'featured'].includes(field)
+);
+
+export type SeriesTemplate = Omit<EventInput, 'date' | 'endDate' | 'featured'>;
+
+/**
+ * Copy only the template fields from an untrusted request body
+ */
+export function pickSeriesTemplate(body: unknown): SeriesTemplate {
+  const template: Record<string, unknown> = {};
+  if (typeof body !== 'object' || body === null) return template;
+
+  for (const field of SERIES_TEMPLATE_FIELDS) {
+    if (field in body) {
+      template[field] = (body as Record<string, unknown>)[field];
+    }
+  }
+
+  return template as SeriesTemplate;
+}
+
+/**
+ * Read a recurrence from a request, either an RRULE string ("FREQ=WEEKLY;COUNT=10") or a RecurrenceRule object
+ * @throws ApiError - 400 when the recurrence is missing or invalid
+ */
+export function parseRecurrence(value: unknown, startDate?: string): RecurrenceRule {
+  const rule =
+    typeof value === 'string'
+      ? parseRRule(value)
+      : typeof value === 'object' && value !== null
+        ? ({ interval: 1, ...value } as RecurrenceRule)
+        : null;
+
+  if (!rule) {
+    throw new ApiError(400, 'Validation failed', { recurrence: 'Recurrence must be a weekly or monthly RRULE' });
+  }
+
+  const errors = validateRecurrence(rule, startDate);
+  if (Object.keys(errors).length > 0) {
+    throw new ApiError(
+      400,
+      'Validation failed',
+      Object.fromEntries(Object.entries(errors).map(([key, message]) => [`recurrence.${key}`, message]))
+    );
+  }
+
+  return rule;
+}
+
+/**
+ * Last date occurrences are scheduled up to, as YYYY-MM-DD
+ */
+function horizonDate(): string {
+  return new Date(Date.now() + SERIES_HORIZON_DAYS * 24 * 60 * 60000).toISOString().split('T')[0];
+}
+
+/**
+ * Flag the occurrence listings show for a series, its next one that hasn't ended and isn't cancelled
+ * Call whenever occurrences are added, cancelled or moved, /api/cron/series moves the flag on as dates end
+ * @returns boolean - Whether the flag moved
+ */
+export async function refreshNextOccurrence(seriesId: Types.ObjectId): Promise<boolean> {
+  await connectToDatabase();
+
+  const next = await Event.findOne({ seriesId, cancelledAt: null, endsAt: { $gte: new Date() } })
+    .sort({ startsAt: 1 })
+    .select('_id isNextOccurrence')
+    .lean<Pick<IEvent, '_id' | 'isNextOccurrence'>>();
+
+  const { modifiedCount } = await Event.updateMany(
+    { seriesId, isNextOccurrence: true, ...(next && { _id: { $ne: next._id } }) },
+    { $unset: { isNextOccurrence: 1 } }
+  );
+  if (next && !next.isNextOccurrence) {
+    await Event.updateOne({ _id: next._id }, { $set: { isNextOccurrence: true } });
+  }
+
+  return modifiedCount > 0 || Boolean(next && !next.isNextOccurrence);
+}
+
+/**
+ * Create the occurrences of a series from today up to the horizon that don't exist yet
+ * Dates that were cancelled still have their event, so they are never scheduled again
+ * @returns IEvent[] - The new occurrences
+ */
+export async function scheduleOccurrences(series: ISeries): Promise<IEvent[]> {
+  await connectToDatabase();
+
+  const from = today();
+  const dates = expandRecurrence(series.startDate, series.recurrence, horizonDate()).filter((date) => date >= from);
+
+  const existing = await Event.find({ seriesId: series._id, occurrenceDate: { $in: dates } })
+    .select('occurrenceDate')
+    .lean<Pick<IEvent, 'occurrenceDate'>[]>();
+  const scheduled = new Set(existing.map(({ occurrenceDate }) => occurrenceDate));
+
+  const created: IEvent[] = [];
+  for (const date of dates.filter((date) => !scheduled.has(date))) {
+    try {
+      created.push(
+        await saveEvent(
+          new Event({
+            ...series.template,
+            date,
+            occurrenceDate: date,
+            seriesId: series._id,
+            ownerId: series.ownerId,
+          })
+        )
+      );
+    } catch (error) {
+      // Another request scheduled the same date in the meantime, slug collisions were already retried
+      if (!isDuplicateKeyError(error) || isSlugCollision(error)) throw error;
+    }
+  }
+
+  return created;
+}
+
+/**
+ * Create a series and schedule its first occurrences
+ * The template is checked against the event schema first, so an invalid series is never saved
+ * @throws ValidationError when the template or the first date isn't a valid event
+ * @throws ApiError - 400 when none of the dates falls between today and the horizon
+ */
+export async function createSeries(
+  template: SeriesTemplate,
+  startDate: string,
+  recurrence: RecurrenceRule,
+  ownerId?: Types.ObjectId | string
+): Promise<{ series: ISeries; occurrences: IEvent[] }> {
+  await connectToDatabase();
+
+  const date = normalizeDate(startDate ?? '');
+  if (!date) {
+    throw new ApiError(400, 'Validation failed', { date: 'Date must be in a valid format (YYYY-MM-DD or ISO string)' });
+  }
+
+  await new Event({ ...template, date, occurrenceDate: date, ownerId }).validate();
+  if (!expandRecurrence(date, recurrence, horizonDate()).some((occurrence) => occurrence >= today())) {
+    throw new ApiError(400, 'Validation failed', { date: 'The series has no dates in the next 90 days' });
+  }
+
+  const series = await Series.create({ template, startDate: date, recurrence, ownerId });
+  const occurrences = await scheduleOccurrences(series);
+  await refreshNextOccurrence(series._id);
+
+  return { series, occurrences };
+}
+
+/**
+ * Cancel a single date of a series, the event is kept so the date isn't scheduled again
+ * Its bookings are cancelled and the attendees emailed, call sendEmailsAfterResponse when any were
+ * @returns number - How many bookings were cancelled
+ */
+export async function cancelOccurrence(eventId: Types.ObjectId): Promise<number> {
+  await connectToDatabase();
+
+  const event = await Event.findOneAndUpdate({ _id: eventId }, { $set: { cancelledAt: new Date() } })
+    .select('seriesId')
+    .lean<Pick<IEvent, 'seriesId'>>();
+  if (event?.seriesId) await refreshNextOccurrence(event.seriesId);
+
+  return cancelEventBookings(eventId);
+}
+
+/**
+ * Apply changes to a series and to its occurrences that haven't started yet
+ * Occurrences keep the fields that were edited on them alone, dates the new recurrence no longer has are
+ * removed, or cancelled when someone booked them
+ * @returns The slugs of the occurrences that changed, how many people were promoted off a waitlist and how many
+ * bookings were cancelled with their date
+ * @throws ValidationError when the changed template isn't a valid event, nothing is changed then
+ */
+export async function updateSeries(
+  series: ISeries,
+  changes: SeriesTemplate,
+  recurrence?: RecurrenceRule
+): Promise<{ slugs: string[]; promoted: number; cancelled: number }> {
+  await connectToDatabase();
+
+  // Checked like a new series, so an invalid template never reaches the occurrences or the scheduler
+  const template = { ...series.template, ...changes };
+  const date = series.startDate;
+  await new Event({ ...template, date, occurrenceDate: date, ownerId: series.ownerId }).validate();
+
+  series.template = template;
+  series.markModified('template');
+  if (recurrence) series.recurrence = recurrence;
+  await series.save();
+
+  const dates = new Set(expandRecurrence(series.startDate, series.recurrence, horizonDate()));
+  const upcoming = await Event.find({ seriesId: series._id, cancelledAt: null, startsAt: { $gt: new Date() } });
+
+  const slugs: string[] = [];
+  let promoted = 0;
+  let cancelled = 0;
+
+  for (const event of upcoming) {
+    slugs.push(event.slug);
+
+    if (!dates.has(event.occurrenceDate ?? event.date)) {
+      if (await Booking.exists({ eventId: event._id, status: 'active' })) {
+        cancelled += await cancelOccurrence(event._id);
+      } else {
+        await Event.deleteOne({ _id: event._id });
+        await deleteEventBookings([event._id]);
+      }
+      continue;
+    }
+
+    const fields = Object.keys(changes).filter((field) => !event.overriddenFields.includes(field));
+    const values: EventInput = Object.fromEntries(
+      fields.map((field) => [field, (changes as Record<string, unknown>)[field]])
+    );
+    // Each occurrence keeps its own session ids, attendees' saved schedules refer to them
+    if ('agenda' in values) values.agenda = keepSessionIds(event.agenda, values.agenda);
+    event.set(values);
+    const capacityChanged = event.isModified('capacity');
+    const rescheduled = event.isModified(['time', 'timezone', 'endTime']);
+    await saveEvent(event);
+    slugs.push(event.slug); // The slug follows the title
+
+    if (rescheduled) await rescheduleReminders(event._id);
+
+    if (capacityChanged) {
+      await syncBookedCount(event._id);
+      promoted += (await fillFromWaitlist(event._id)).length;
+    }
+  }
+
+  const created = await scheduleOccurrences(series);
+  await refreshNextOccurrence(series._id);
+
+  return { slugs: [...new Set([...slugs, ...created.map(({ slug }) => slug)])], promoted, cancelled };
+}
+
+/**
+ * Remember which template fields were edited on an occurrence, call before saving it
+ * Later edits to the series then leave those fields alone
+ */
+export function recordOverrides(event: IEvent): void {
+  if (!event.seriesId) return;
+
+  const edited = SERIES_TEMPLATE_FIELDS.filter((field) => event.isModified(field));
+  if (edited.length > 0) {
+    event.overriddenFields = [...new Set([...event.overriddenFields, ...edited])];
+  }
+}
+
+/**
+ * Delete a series with every occurrence, their bookings and queued emails
+ * @returns string[] - Slugs of the deleted occurrences
+ */
+export async function deleteSeries(seriesId: Types.ObjectId): Promise<string[]> {
+  await connectToDatabase();
+
+  const occurrences = await Event.find({ seriesId }).select('_id slug').lean<Pick<IEvent, '_id' | 'slug'>[]>();
+  const ids = occurrences.map(({ _id }) => _id);
+
+  await deleteEventBookings(ids);
+  await Event.deleteMany({ _id: { $in: ids } });
+  await Series.deleteOne({ _id: seriesId });
+
+  return occurrences.map(({ slug }) => slug);
+}
+
+/**
+ * Schedule the next occurrences of every series that hasn't ended, and move the listed date of each series on
+ * A series that fails is logged and skipped, so it doesn't hold up the others
+ * @returns Number of series checked, of occurrences created, of series whose listed date moved and of series
+ * that failed
+ */
+export async function scheduleAllSeries(): Promise<{
+  series: number;
+  created: number;
+  moved: number;
+  failed: number;
+}> {
+  await connectToDatabase();
+
+  const summary = { series: 0, created: 0, moved: 0, failed: 0 };
+  const active = Series.find({ $or: [{ 'recurrence.until': null }, { 'recurrence.until': { $gte: today() } }] });
+
+  for await (const series of active.cursor()) {
+    summary.series++;
+    try {
+      summary.created += (await scheduleOccurrences(series)).length;
+      if (await refreshNextOccurrence(series._id)) summary.moved++;
+    } catch (error) {
+      summary.failed++;
+      console.error(`❌ Failed to schedule series ${series._id}:`, error);
+    }
+  }
+
+  // Series that are over still have their last date listed until it ends
+  const ended = await Event.distinct('seriesId', { isNextOccurrence: true, endsAt: { $lt: new Date() } });
+  for (const seriesId of ended) {
+    try {
+      if (await refreshNextOccurrence(seriesId)) summary.moved++;
+    } catch (error) {
+      summary.failed++;
+      console.error(`❌ Failed to move the listed date of series ${seriesId}:`, error);
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * How a series repeats and its next dates, for the page of one of its occurrences
+ * @returns null if the series no longer exists
+ */
+export async function getSeriesDates(
+  seriesId: Types.ObjectId,
+  limit = SERIES_DATES_LIMIT
+): Promise<{ recurrence: string; events: EventItem[] } | null> {
+  await connectToDatabase();
+
+  const series = await Series.findById(seriesId).select('recurrence').lean<Pick<ISeries, 'recurrence'>>();
+  if (!series) return null;
+
+  const events = await Event.find({ seriesId, cancelledAt: null, endsAt: { $gte: new Date() } })
+    .sort({ startsAt: 1 })
+    .limit(limit)
+    .lean<IEvent[]>();
+
+  return { recurrence: describeRecurrence(series.recurrence), events: events.map(toEventItem) };
+}
@@ -0,0 +1,11 @@
+/**
+ * Public origin of the site, used for links that leave the browser (emails, calendars, feeds)
+ */
+export const SITE_URL = (process.env.NEXT_PUBLIC_BASE_URL ?? 'http://localhost:3000').replace(/\/+$/, '');
+
+/**
+ * Build an absolute URL on this site from a path
+ */
+export function absoluteUrl(path: string): string {
+  return `${SITE_URL}${path.startsWith('/') ? path : `/${path}`}`;
+}
@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { nextAvailableSlug, slugify, slugVariantPattern } from '@/lib/slug';
+
+describe('slugify', () => {
+  it('lowercases titles and joins words with single hyphens', () => {
+    assert.equal(slugify('  React   Conf__2026 -- Berlin  '), 'react-conf-2026-berlin');
+  });
+
+  it('drops punctuation', () => {
+    assert.equal(slugify('Next.js: What’s new?'), 'nextjs-whats-new');
+  });
+
+  it('transliterates accents and non-Latin scripts', () => {
+    assert.equal(slugify('Café Zürich'), 'cafe-zurich');
+    assert.equal(slugify('Москва JS'), 'moskva-js');
+  });
+
+  it('falls back to a generic slug when nothing of the title survives', () => {
+    assert.equal(slugify('🎉🎉'), 'event');
+    assert.equal(slugify('---'), 'event');
+  });
+});
+
+describe('slugVariantPattern', () => {
+  it('matches the base and its numbered variants only', () => {
+    const pattern = slugVariantPattern('react-conf');
+
+    assert.ok(pattern.test('react-conf'));
+    assert.ok(pattern.test('react-conf-12'));
+    assert.equal(pattern.test('react-conf-berlin'), false);
+    assert.equal(pattern.test('old-react-conf'), false);
+  });
+});
+
+describe('nextAvailableSlug', () => {
+  it('keeps the base when it is free', () => {
+    assert.equal(nextAvailableSlug('react-conf', ['react-conf-2']), 'react-conf');
+  });
+
+  it('starts numbering at 2', () => {
+    assert.equal(nextAvailableSlug('react-conf', ['react-conf']), 'react-conf-2');
+  });
+
+  it('goes one past the highest number taken, even with gaps', () => {
+    assert.equal(nextAvailableSlug('react-conf', ['react-conf', 'react-conf-2', 'react-conf-7']), 'react-conf-8');
+  });
+});
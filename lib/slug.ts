@@ -0,0 +1,44 @@
+import { transliterate } from 'transliteration';
+
+// URL slugs for events, derived from their titles
+
+/**
+ * Used when nothing of a title survives, e.g. a title made only of emoji
+ */
+const FALLBACK_SLUG = 'event';
+
+/**
+ * Turn a title into a slug, transliterating non-Latin scripts and accents to ASCII
+ * e.g. "Café Zürich" becomes "cafe-zurich" and "Москва JS" becomes "moskva-js"
+ */
+export function slugify(title: string): string {
+  const slug = transliterate(title)
+    .toLowerCase()
+    .trim()
+    .replace(/[^\w\s-]/g, '') // Remove special characters
+    .replace(/[\s_-]+/g, '-') // Replace spaces, underscores, and multiple hyphens with single hyphen
+    .replace(/^-+|-+$/g, ''); // Remove leading/trailing hyphens
+
+  return slug || FALLBACK_SLUG;
+}
+
+/**
+ * Match a slug and its numbered variants, e.g. "react-conf", "react-conf-2" and "react-conf-3"
+ */
+export function slugVariantPattern(base: string): RegExp {
+  return new RegExp(`^${base}(?:-(\\d+))?$`);
+}
+
+/**
+ * Pick the first free slug for a base, adding a numeric suffix when the base is taken
+ * @param taken - Slugs already in use that match slugVariantPattern(base)
+ * @returns string - The base itself, or the base with a suffix one higher than the highest taken, starting at 2
+ */
+export function nextAvailableSlug(base: string, taken: string[]): string {
+  if (!taken.includes(base)) return base;
+
+  const pattern = slugVariantPattern(base);
+  const highest = Math.max(1, ...taken.map((slug) => Number(pattern.exec(slug)?.[1] ?? 1)));
+
+  return `${base}-${highest + 1}`;
+}
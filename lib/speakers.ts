@@ -0,0 +1,79 @@
+import { Types } from 'mongoose';
+
+import connectToDatabase from '@/lib/mongoose';
+import { Event, Speaker, type IEvent, type ISpeaker } from '@/database';
+import type { AgendaItem, SpeakerItem } from '@/lib/agenda';
+
+/**
+ * Speaker fields that may be set through the API
+ */
+export const EDITABLE_SPEAKER_FIELDS = ['name', 'bio', 'avatar', 'links'] as const;
+
+export type SpeakerInput = Partial<Pick<ISpeaker, (typeof EDITABLE_SPEAKER_FIELDS)[number]>>;
+
+/**
+ * Copy only the editable fields from an untrusted request body
+ */
+export function pickSpeakerFields(body: unknown): SpeakerInput {
+  const fields: Record<string, unknown> = {};
+  if (typeof body !== 'object' || body === null) return fields;
+
+  for (const field of EDITABLE_SPEAKER_FIELDS) {
+    if (field in body) {
+      fields[field] = (body as Record<string, unknown>)[field];
+    }
+  }
+
+  return fields as SpeakerInput;
+}
+
+/**
+ * Convert a speaker document to the shape shown next to sessions
+ */
+export function toSpeakerItem(speaker: ISpeaker): SpeakerItem {
+  return {
+    id: String(speaker._id),
+    name: speaker.name,
+    bio: speaker.bio,
+    avatar: speaker.avatar,
+    links: speaker.links.map(({ label, url }) => ({ label, url })),
+  };
+}
+
+/**
+ * Sessions of an event with their speakers, in the order of the agenda
+ * Speakers that were deleted in the meantime are left out
+ */
+export async function getEventAgenda(event: Pick<IEvent, 'agenda'>): Promise<AgendaItem[]> {
+  await connectToDatabase();
+
+  const ids = [...new Set(event.agenda.flatMap(({ speakerIds }) => speakerIds.map(String)))];
+  const speakers = ids.length > 0 ? await Speaker.find({ _id: { $in: ids } }).lean<ISpeaker[]>() : [];
+  const byId = new Map(speakers.map((speaker) => [String(speaker._id), toSpeakerItem(speaker)]));
+
+  return event.agenda.map((session) => ({
+    id: String(session._id),
+    title: session.title,
+    description: session.description,
+    date: session.date,
+    startTime: session.startTime,
+    endTime: session.endTime,
+    track: session.track,
+    room: session.room,
+    speakers: session.speakerIds.flatMap((id) => byId.get(String(id)) ?? []),
+  }));
+}
+
+/**
+ * Delete a speaker and take them off every session they were on
+ * @returns string[] - Slugs of the events whose agenda changed
+ */
+export async function deleteSpeaker(speakerId: Types.ObjectId): Promise<string[]> {
+  await connectToDatabase();
+
+  const events = await Event.find({ 'agenda.speakerIds': speakerId }).select('slug').lean<Pick<IEvent, 'slug'>[]>();
+  await Event.updateMany({ 'agenda.speakerIds': speakerId }, { $pull: { 'agenda.$[].speakerIds': speakerId } });
+  await Speaker.deleteOne({ _id: speakerId });
+
+  return events.map(({ slug }) => slug);
+}
@@ -0,0 +1,114 @@
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+
+import { getStorageDriver, getStoragePublicUrl } from './public-url';
+
+/**
+ * Somewhere uploaded files can be stored, selected with the STORAGE_DRIVER environment variable
+ */
+export interface StorageAdapter {
+  name: string;
+  put(key: string, body: Buffer, contentType: string): Promise<string>; // Returns the file's public URL
+}
+
+/**
+ * Keys are generated by the app, but never let one escape the storage root
+ */
+export function isSafeStorageKey(key: string): boolean {
+  return key.split('/').every((segment) => /^[\w.-]+$/.test(segment) && segment !== '.' && segment !== '..');
+}
+
+/**
+ * Directory the local adapter writes to, served by app/uploads/[...key]/route.ts
+ */
+export function getLocalUploadsDir(): string {
+  return path.resolve(process.env.UPLOADS_DIR ?? '.uploads');
+}
+
+/**
+ * Write files to the local filesystem, for development
+ */
+export function createLocalStorage(dir: string): StorageAdapter {
+  return {
+    name: 'local',
+    async put(key, body) {
+      if (!isSafeStorageKey(key)) throw new Error(`Invalid storage key "${key}"`);
+
+      const file = path.join(dir, key);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, body);
+
+      return `${getStoragePublicUrl()}/${key}`;
+    },
+  };
+}
+
+/**
+ * Read a file written by the local adapter
+ * @returns Buffer | null - Null when there is no such file
+ */
+export async function readLocalFile(key: string): Promise<Buffer | null> {
+  if (!isSafeStorageKey(key)) return null;
+
+  try {
+    return await readFile(path.join(getLocalUploadsDir(), key));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Upload files to S3 or an S3-compatible service (R2, MinIO, ...) configured with S3_* environment variables
+ * Files are stored with long cache lifetimes, keys are never reused
+ */
+export function createS3Storage(): StorageAdapter {
+  const { S3_BUCKET, S3_REGION, S3_ENDPOINT, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+  if (!S3_BUCKET) {
+    throw new Error('Please define the S3_BUCKET environment variable inside .env');
+  }
+
+  const client = new S3Client({
+    region: S3_REGION ?? 'us-east-1',
+    endpoint: S3_ENDPOINT,
+    forcePathStyle: Boolean(S3_ENDPOINT), // Most S3-compatible services don't support bucket subdomains
+    credentials:
+      S3_ACCESS_KEY_ID && S3_SECRET_ACCESS_KEY
+        ? { accessKeyId: S3_ACCESS_KEY_ID, secretAccessKey: S3_SECRET_ACCESS_KEY }
+        : undefined,
+  });
+
+  return {
+    name: 's3',
+    async put(key, body, contentType) {
+      await client.send(
+        new PutObjectCommand({
+          Bucket: S3_BUCKET,
+          Key: key,
+          Body: body,
+          ContentType: contentType,
+          CacheControl: 'public, max-age=31536000, immutable',
+        })
+      );
+
+      return `${getStoragePublicUrl()}/${key}`;
+    },
+  };
+}
+
+let storage: StorageAdapter | undefined;
+
+/**
+ * Get the storage configured by STORAGE_DRIVER (local or s3), defaulting to local
+ */
+export function getStorage(): StorageAdapter {
+  storage ??= getStorageDriver() === 's3' ? createS3Storage() : createLocalStorage(getLocalUploadsDir());
+  return storage;
+}
+
+/**
+ * Replace the configured storage, e.g. with an in-memory one in tests
+ */
+export function setStorage(next: StorageAdapter | undefined): void {
+  storage = next;
+}
@@ -0,0 +1,73 @@
+import { randomUUID } from 'crypto';
+import sharp from 'sharp';
+
+import { ApiError } from '@/lib/errors';
+import { POSTER_MAX_BYTES, POSTER_MIME_TYPES, POSTER_WIDTHS, type PosterMimeType } from '@/lib/posters';
+import { getStorage } from './adapters';
+
+/**
+ * Reject images with more pixels than this before decoding them, to keep memory use bounded
+ */
+const MAX_INPUT_PIXELS = 50_000_000;
+
+const WEBP_QUALITY = 80;
+
+export interface UploadedPoster {
+  url: string; // The largest size, sizes in between are picked by the posterLoader
+  widths: number[];
+}
+
+/**
+ * Detect an image type from the file's first bytes, the browser-supplied type can't be trusted
+ */
+function sniffMimeType(bytes: Buffer): PosterMimeType | null {
+  if (bytes.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff]))) return 'image/jpeg';
+  if (bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'image/png';
+  if (bytes.toString('ascii', 0, 4) === 'RIFF' && bytes.toString('ascii', 8, 12) === 'WEBP') return 'image/webp';
+  if (bytes.toString('ascii', 4, 8) === 'ftyp' && ['avif', 'avis'].includes(bytes.toString('ascii', 8, 12))) {
+    return 'image/avif';
+  }
+  return null;
+}
+
+/**
+ * Validate an uploaded poster, resize it to every POSTER_WIDTHS and store the results as WebP
+ * @throws ApiError - 413 when the file is too large, 415 when it isn't a supported image
+ */
+export async function uploadPoster(file: File): Promise<UploadedPoster> {
+  if (file.size > POSTER_MAX_BYTES) {
+    const message = `Poster cannot exceed ${POSTER_MAX_BYTES / 1024 / 1024} MB`;
+    throw new ApiError(413, message, { image: message });
+  }
+
+  const bytes = Buffer.from(await file.arrayBuffer());
+  if (!sniffMimeType(bytes)) {
+    const message = `Poster must be one of ${POSTER_MIME_TYPES.map((type) => type.replace('image/', '')).join(', ')}`;
+    throw new ApiError(415, message, { image: message });
+  }
+
+  const image = sharp(bytes, { limitInputPixels: MAX_INPUT_PIXELS });
+  try {
+    await image.metadata();
+  } catch {
+    throw new ApiError(415, 'Poster is not a valid image', { image: 'Poster is not a valid image' });
+  }
+
+  const id = randomUUID();
+  const storage = getStorage();
+
+  const urls = await Promise.all(
+    POSTER_WIDTHS.map(async (width) => {
+      const resized = await image
+        .clone()
+        .rotate() // Apply the EXIF orientation, which is dropped from the output
+        .resize({ width, withoutEnlargement: true })
+        .webp({ quality: WEBP_QUALITY })
+        .toBuffer();
+
+      return storage.put(`posters/${id}/${width}.webp`, resized, 'image/webp');
+    })
+  );
+
+  return { url: urls[urls.length - 1], widths: [...POSTER_WIDTHS] };
+}
@@ -0,0 +1,49 @@
+// Where uploaded files are served from, shared with next.config.ts so keep it free of imports
+
+/**
+ * Storage backends, selected with the STORAGE_DRIVER environment variable
+ */
+export const STORAGE_DRIVERS = ['local', 's3'] as const;
+
+export type StorageDriver = (typeof STORAGE_DRIVERS)[number];
+
+/**
+ * Path the local adapter's files are served under, see app/uploads/[...key]/route.ts
+ */
+export const LOCAL_UPLOADS_PATH = '/uploads';
+
+export function getStorageDriver(): StorageDriver {
+  const driver = process.env.STORAGE_DRIVER ?? 'local';
+  if (!STORAGE_DRIVERS.includes(driver as StorageDriver)) {
+    throw new Error(`Unknown STORAGE_DRIVER "${driver}", expected local or s3`);
+  }
+
+  return driver as StorageDriver;
+}
+
+/**
+ * Base URL of uploaded files, without a trailing slash
+ * S3 uploads use STORAGE_PUBLIC_URL (e.g. a CDN in front of the bucket), defaulting to the bucket's own URL
+ */
+export function getStoragePublicUrl(): string {
+  if (getStorageDriver() === 'local') return LOCAL_UPLOADS_PATH;
+
+  const { STORAGE_PUBLIC_URL, S3_ENDPOINT, S3_BUCKET, S3_REGION } = process.env;
+  const url = STORAGE_PUBLIC_URL
+    ? STORAGE_PUBLIC_URL
+    : S3_ENDPOINT
+      ? `${S3_ENDPOINT}/${S3_BUCKET}`
+      : `https://${S3_BUCKET}.s3.${S3_REGION ?? 'us-east-1'}.amazonaws.com`;
+
+  return url.replace(/\/+$/, '');
+}
+
+/**
+ * images.remotePatterns entries that let next/image load uploaded files
+ * Empty for the local adapter, its files are served by this site
+ */
+export function getStorageRemotePatterns(): URL[] {
+  if (getStorageDriver() === 'local') return [];
+
+  return [new URL(`${getStoragePublicUrl()}/**`)];
+}
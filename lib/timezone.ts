@@ -0,0 +1,138 @@
+// Time zone helpers built on Intl, so results never depend on the server's local time zone
+
+/**
+ * How long an event lasts when it has no end time
+ */
+export const DEFAULT_EVENT_DURATION_MINUTES = 120;
+
+export interface EventSchedule {
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM
+  timezone: string; // IANA time zone, e.g. "Europe/Vienna"
+  endDate?: string | null; // YYYY-MM-DD, last day of a multi-day event
+  endTime?: string | null; // HH:MM on the last day
+}
+
+/**
+ * Check whether a string is an IANA time zone known to the runtime
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Offset of a time zone from UTC at the given instant, in minutes
+ */
+function timeZoneOffset(instant: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+
+  return Math.round((asUtc - instant.getTime()) / 60000);
+}
+
+/**
+ * Convert a wall-clock date and time in a time zone to the UTC instant it refers to
+ * Times skipped by a DST change move forward past the gap, repeated times resolve to the earlier instant
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+
+  // A DST change can only happen between the offsets in effect a day either side
+  const oneDay = 24 * 60 * 60000;
+  const before = wallClock - timeZoneOffset(new Date(wallClock - oneDay), timeZone) * 60000;
+  const after = wallClock - timeZoneOffset(new Date(wallClock + oneDay), timeZone) * 60000;
+
+  const matches = (instant: number) => timeZoneOffset(new Date(instant), timeZone) * 60000 === wallClock - instant;
+  const valid = [before, after].filter(matches);
+
+  // No valid candidate means the time falls in a DST gap, applying the old offset moves it past the gap
+  return new Date(valid.length > 0 ? Math.min(...valid) : before);
+}
+
+/**
+ * Compute the UTC start and end of an event from its local schedule
+ * Without an end time, the event ends DEFAULT_EVENT_DURATION_MINUTES after its start time on its last day
+ */
+export function computeEventSchedule({ date, time, timezone, endDate, endTime }: EventSchedule) {
+  const startsAt = zonedTimeToUtc(date, time, timezone);
+
+  const endsAt = endTime
+    ? zonedTimeToUtc(endDate || date, endTime, timezone)
+    : new Date(zonedTimeToUtc(endDate || date, time, timezone).getTime() + DEFAULT_EVENT_DURATION_MINUTES * 60000);
+
+  return { startsAt, endsAt };
+}
+
+/**
+ * UTC start and end of a stored event
+ * Events saved before time zone support have no startsAt/endsAt, so compute them, reading the schedule as UTC
+ */
+export function resolveEventSchedule(
+  event: Omit<EventSchedule, 'timezone'> & { timezone?: string; startsAt?: Date; endsAt?: Date }
+) {
+  if (event.startsAt && event.endsAt) {
+    return { startsAt: new Date(event.startsAt), endsAt: new Date(event.endsAt) };
+  }
+
+  return computeEventSchedule({ ...event, timezone: event.timezone ?? 'UTC' });
+}
+
+/**
+ * Format the day(s) an event runs on, e.g. "Dec 1 – 5, 2025"
+ * @param timeZone - Time zone to show the dates in, defaults to the runtime's
+ */
+export function formatEventDates(startsAt: Date, endsAt: Date, timeZone?: string): string {
+  return new Intl.DateTimeFormat('en-US', { timeZone, month: 'short', day: 'numeric', year: 'numeric' }).formatRange(
+    startsAt,
+    endsAt
+  );
+}
+
+/**
+ * Format the start time of an event with the time zone abbreviation, e.g. "09:00 PST"
+ * @param timeZone - Time zone to show the time in, defaults to the runtime's
+ */
+export function formatEventTime(startsAt: Date, timeZone?: string): string {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+    timeZoneName: 'short',
+  }).format(startsAt);
+}
+
+/**
+ * Format the start of an event with its day and time zone, e.g. "Mon, Dec 1, 18:00 GMT+1"
+ * @param timeZone - Time zone to show the date and time in, defaults to the runtime's
+ */
+export function formatEventDateTime(startsAt: Date, timeZone?: string): string {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+    timeZoneName: 'short',
+  }).format(startsAt);
+}
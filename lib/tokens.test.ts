@@ -0,0 +1,70 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+
+import { signToken, verifyToken } from '@/lib/tokens';
+
+const HOUR = 60 * 60 * 1000;
+
+function inOneHour(): Date {
+  return new Date(Date.now() + HOUR);
+}
+
+describe('signed tokens', () => {
+  before(() => {
+    process.env.TOKEN_SECRET = 'test-secret';
+  });
+
+  it('returns the claims of a valid token', () => {
+    const expiresAt = inOneHour();
+    const token = signToken({ purpose: 'booking', subject: 'booking-1', email: 'ada@example.com', expiresAt });
+
+    const claims = verifyToken(token, 'booking');
+
+    assert.equal(claims?.purpose, 'booking');
+    assert.equal(claims?.subject, 'booking-1');
+    assert.equal(claims?.email, 'ada@example.com');
+    assert.equal(claims?.expiresAt.getTime(), Math.floor(expiresAt.getTime() / 1000) * 1000);
+  });
+
+  it('produces URL-safe tokens', () => {
+    const token = signToken({ purpose: 'sign-in', subject: 'ada@example.com', expiresAt: inOneHour() });
+
+    assert.match(token, /^[\w-]+\.[\w-]+$/);
+  });
+
+  it('rejects a token issued for another purpose', () => {
+    const token = signToken({ purpose: 'sign-in', subject: 'ada@example.com', expiresAt: inOneHour() });
+
+    assert.equal(verifyToken(token, 'booking'), null);
+  });
+
+  it('rejects an expired token', () => {
+    const token = signToken({ purpose: 'booking', subject: 'booking-1', expiresAt: new Date(Date.now() - HOUR) });
+
+    assert.equal(verifyToken(token, 'booking'), null);
+  });
+
+  it('rejects a token whose payload was changed', () => {
+    const token = signToken({ purpose: 'booking', subject: 'booking-1', expiresAt: inOneHour() });
+    const [, signature] = token.split('.');
+    const forged = Buffer.from(
+      JSON.stringify({ p: 'booking', sub: 'booking-2', iat: 0, exp: Math.floor(Date.now() / 1000) + 3600 })
+    ).toString('base64url');
+
+    assert.equal(verifyToken(`${forged}.${signature}`, 'booking'), null);
+  });
+
+  it('rejects a token signed with another secret', () => {
+    process.env.TOKEN_SECRET = 'other-secret';
+    const token = signToken({ purpose: 'booking', subject: 'booking-1', expiresAt: inOneHour() });
+    process.env.TOKEN_SECRET = 'test-secret';
+
+    assert.equal(verifyToken(token, 'booking'), null);
+  });
+
+  it('rejects malformed tokens', () => {
+    for (const token of ['', 'abc', 'abc.', '.abc', 'not.a.token']) {
+      assert.equal(verifyToken(token, 'booking'), null, token);
+    }
+  });
+});
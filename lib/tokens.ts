@@ -0,0 +1,85 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// Stateless HMAC-signed tokens for links that need no password, e.g. managing a booking or signing in
+
+/**
+ * What a token grants access to, a token signed for one purpose is never valid for another
+ */
+export type TokenPurpose = 'booking' | 'sign-in' | 'data-deletion';
+
+export interface TokenClaims {
+  purpose: TokenPurpose;
+  subject: string; // Id of the resource the token grants access to
+  email?: string; // Email the token was issued to, lets callers reject tokens once it changes
+  issuedAt: Date;
+  expiresAt: Date;
+}
+
+interface TokenPayload {
+  p: TokenPurpose;
+  sub: string;
+  email?: string;
+  iat: number; // Seconds since the epoch
+  exp: number; // Seconds since the epoch
+}
+
+/**
+ * Get the signing secret, failing loudly when it isn't configured
+ */
+function getSecret(): string {
+  const secret = process.env.TOKEN_SECRET;
+  if (!secret) {
+    throw new Error('Please define the TOKEN_SECRET environment variable inside .env');
+  }
+  return secret;
+}
+
+function sign(payload: string): Buffer {
+  return createHmac('sha256', getSecret()).update(payload).digest();
+}
+
+/**
+ * Sign a token carrying the given claims
+ * @returns string - URL-safe token: base64url(payload).base64url(signature)
+ */
+export function signToken({ purpose, subject, email, expiresAt }: Omit<TokenClaims, 'issuedAt'>): string {
+  const payload: TokenPayload = {
+    p: purpose,
+    sub: subject,
+    email,
+    iat: Math.floor(Date.now() / 1000),
+    exp: Math.floor(expiresAt.getTime() / 1000),
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+  return `${encoded}.${sign(encoded).toString('base64url')}`;
+}
+
+/**
+ * Verify a token's signature, purpose and expiry
+ * @returns The token's claims, or null if it is invalid, expired or was issued for another purpose
+ */
+export function verifyToken(token: string, purpose: TokenPurpose): TokenClaims | null {
+  const [encoded, signature] = token.split('.');
+  if (!encoded || !signature) return null;
+
+  const expected = sign(encoded);
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+  try {
+    const payload: TokenPayload = JSON.parse(Buffer.from(encoded, 'base64url').toString());
+    if (payload.p !== purpose || typeof payload.sub !== 'string') return null;
+    if (payload.exp * 1000 < Date.now()) return null;
+
+    return {
+      purpose: payload.p,
+      subject: payload.sub,
+      email: payload.email,
+      issuedAt: new Date((payload.iat ?? 0) * 1000),
+      expiresAt: new Date(payload.exp * 1000),
+    };
+  } catch {
+    return null;
+  }
+}
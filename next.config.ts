@@ -1,5 +1,7 @@
 import type { NextConfig } from "next";
 
+import { getStorageRemotePatterns } from "./lib/storage/public-url";
+
 const nextConfig: NextConfig = {
   /* config options here */
   async rewrites() {
@@ -16,6 +18,10 @@ const nextConfig: NextConfig = {
   },
   // This is required to support PostHog trailing slash API requests
   skipTrailingSlashRedirect: true,
+  images: {
+    // Let next/image load posters from the configured upload storage
+    remotePatterns: getStorageRemotePatterns(),
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,131 @@
+import type { EventSeedItem } from '@/lib/constants';
+import type { EventMode } from '@/lib/event-rules';
+
+// Turns the card-sized seed entries from lib/constants.ts into full event documents
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const DEFAULT_AGENDA = ['Registration & Welcome', 'Opening Keynote', 'Talks & Workshops', 'Networking & Closing'];
+
+/**
+ * Tags added when a keyword appears in the event title
+ */
+const KEYWORD_TAGS: [RegExp, string[]][] = [
+  [/aws|cloud/i, ['cloud']],
+  [/kube/i, ['kubernetes', 'cloud-native']],
+  [/google/i, ['google', 'android']],
+  [/microsoft/i, ['microsoft', 'dotnet']],
+  [/wwdc/i, ['apple', 'ios']],
+  [/next\.js/i, ['nextjs', 'react']],
+  [/react/i, ['react']],
+  [/js|javascript/i, ['javascript']],
+  [/eth/i, ['web3', 'ethereum']],
+  [/nasa|space/i, ['space', 'open-data']],
+  [/open source/i, ['open-source', 'linux']],
+  [/fullstack/i, ['fullstack', 'web']],
+];
+
+export interface FuzzyDate {
+  date: string; // First day, YYYY-MM-DD
+  endDate?: string; // Last day of a multi-day event, YYYY-MM-DD
+  tentative: boolean; // Only the month is known
+}
+
+export interface EventFixture {
+  values: Record<string, unknown>;
+  warnings: string[];
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const monthIndex = (name: string) => MONTHS.indexOf(name.slice(0, 3).toLowerCase());
+
+/**
+ * Parse the human-friendly dates used in lib/constants.ts
+ * Supports "Dec 1, 2025", "Dec 1–5, 2025", "Mar 31–Apr 3, 2026" and "May 2026 (TBA)"
+ * @returns The parsed date, or null if the format isn't recognized
+ */
+export function parseFuzzyDate(text: string): FuzzyDate | null {
+  const range = text.trim().match(/^([A-Za-z]+)\.? (\d{1,2})(?:\s*[–-]\s*(?:([A-Za-z]+)\.? )?(\d{1,2}))?, (\d{4})$/);
+  if (range) {
+    const [, startMonthName, startDay, endMonthName, endDay, year] = range;
+    const startMonth = monthIndex(startMonthName);
+    const endMonth = endMonthName ? monthIndex(endMonthName) : startMonth;
+    if (startMonth === -1 || endMonth === -1) return null;
+
+    return {
+      date: `${year}-${pad(startMonth + 1)}-${pad(Number(startDay))}`,
+      endDate: endDay ? `${year}-${pad(endMonth + 1)}-${pad(Number(endDay))}` : undefined,
+      tentative: false,
+    };
+  }
+
+  const month = text.trim().match(/^([A-Za-z]+)\.? (\d{4})\b(.*)$/);
+  if (month) {
+    const [, monthName, year] = month;
+    const index = monthIndex(monthName);
+    if (index === -1) return null;
+
+    return { date: `${year}-${pad(index + 1)}-01`, tentative: true };
+  }
+
+  return null;
+}
+
+/**
+ * Derive the event mode from locations like "Online" or "Seattle, USA + Online"
+ */
+function modeFromLocation(location: string): EventMode {
+  if (/^online$/i.test(location.trim())) return 'online';
+  if (/\+\s*online/i.test(location)) return 'hybrid';
+  return 'offline';
+}
+
+/**
+ * Build a full event document from a seed entry, filling the fields it lacks with defaults
+ */
+export function toEventFixture(item: EventSeedItem): EventFixture {
+  const warnings: string[] = [];
+  const mode = modeFromLocation(item.location);
+  const city = item.location.replace(/\s*\+\s*online/i, '').trim();
+  const isHackathon = /hackathon|challenge/i.test(item.title);
+
+  const parsed = parseFuzzyDate(item.date);
+  if (!parsed) {
+    warnings.push(`Unrecognized date "${item.date}", passing it through unchanged`);
+  } else if (parsed.tentative) {
+    warnings.push(`Date "${item.date}" is tentative, using ${parsed.date}`);
+  }
+
+  const tags = new Set([isHackathon ? 'hackathon' : 'conference']);
+  for (const [pattern, keywordTags] of KEYWORD_TAGS) {
+    if (pattern.test(item.title)) keywordTags.forEach((tag) => tags.add(tag));
+  }
+
+  return {
+    values: {
+      title: item.title,
+      slug: item.slug,
+      image: item.image,
+      location: item.location,
+      date: parsed?.date ?? item.date,
+      endDate: parsed?.endDate,
+      time: item.time,
+      timezone: item.timezone,
+      capacity: item.capacity,
+      mode,
+      venue: mode === 'online' ? 'Online' : `${city} (venue to be announced)`,
+      overview: `${item.title} brings developers together ${mode === 'online' ? 'online' : `in ${city}`} for ${
+        isHackathon ? 'a weekend of building and shipping' : 'talks, workshops and networking'
+      }.`,
+      description: `${item.title} is one of the developer events you can't miss this year. Join the community ${
+        mode === 'offline' ? `in ${city}` : mode === 'hybrid' ? `in ${city} or online` : 'online'
+      } to learn from experts, meet other developers and get hands-on with the latest tools.`,
+      audience: isHackathon ? 'Developers, designers and makers' : 'Developers and engineering teams',
+      agenda: DEFAULT_AGENDA.map((title) => ({ title })),
+      organizer: `The ${item.title.replace(/\s*\d{4}$/, '')} organizing team`,
+      tags: [...tags],
+    },
+    warnings,
+  };
+}
@@ -0,0 +1,143 @@
+/**
+ * Bring existing data in line with the current schemas
+ *
+ * Usage: npm run migrate
+ *
+ * Every migration is idempotent, so the command is safe to run after each deploy.
+ */
+import { Types } from 'mongoose';
+
+import connectToDatabase, { disconnect } from '@/lib/mongoose';
+import { Booking, Email, Event, Series, Session, Speaker, User, type IEvent } from '@/database';
+import { parseAgendaItem } from '@/lib/agenda';
+import { normalizeTags } from '@/lib/event-rules';
+import { parseLocation } from '@/lib/geo';
+import { refreshNextOccurrence } from '@/lib/series';
+
+interface Migration {
+  name: string;
+  up: () => Promise<string>; // Returns a summary of what changed
+}
+
+/**
+ * Turn agenda items saved as text into sessions, leaving ones that already are sessions alone
+ */
+function toSessions(agenda: (string | Record<string, unknown>)[]) {
+  return agenda.map((item) => (typeof item === 'string' ? { ...parseAgendaItem(item), speakerIds: [] } : item));
+}
+
+const migrations: Migration[] = [
+  {
+    name: 'booking-status',
+    // Bookings made before cancellation was tracked are all active
+    up: async () => {
+      const { modifiedCount } = await Booking.updateMany(
+        { status: { $exists: false } },
+        { $set: { status: 'active', transfers: [] } }
+      );
+      return `marked ${modifiedCount} bookings as active`;
+    },
+  },
+  {
+    name: 'event-location',
+    // Events saved before locations were structured only have the free-form location and mode
+    up: async () => {
+      let updated = 0;
+      for await (const event of Event.find({ isOnline: { $exists: false } })
+        .select('location mode')
+        .lean()
+        .cursor()) {
+        const { city, country } = parseLocation(event.location);
+        await Event.updateOne(
+          { _id: event._id },
+          { $set: { isOnline: event.mode !== 'offline', ...(city && { city }), ...(country && { country }) } }
+        );
+        updated++;
+      }
+      return `structured the location of ${updated} events`;
+    },
+  },
+  {
+    name: 'lowercase-tags',
+    // Tags were stored as typed, filters look them up in lowercase
+    up: async () => {
+      let updated = 0;
+      for await (const event of Event.find({ tags: /[A-Z]|^\s|\s$/ })
+        .select('tags')
+        .lean<Pick<IEvent, '_id' | 'tags'>[]>()
+        .cursor()) {
+        await Event.updateOne({ _id: event._id }, { $set: { tags: normalizeTags(event.tags) } });
+        updated++;
+      }
+      return `normalized the tags of ${updated} events`;
+    },
+  },
+  {
+    name: 'series-next-occurrence',
+    // Listings used to pick the next date of each series when queried, they now rely on a flag
+    up: async () => {
+      let moved = 0;
+      for (const seriesId of await Event.distinct('seriesId', { seriesId: { $ne: null } })) {
+        if (await refreshNextOccurrence(seriesId)) moved++;
+      }
+      return `flagged the next date of ${moved} series`;
+    },
+  },
+  {
+    name: 'agenda-sessions',
+    // Agendas were lists of text such as "09:00 AM - 10:00 AM | Keynote" before sessions were structured
+    up: async () => {
+      let events = 0;
+      for await (const event of Event.find({ 'agenda.0': { $type: 'string' } })
+        .select('agenda')
+        .lean<{ _id: Types.ObjectId; agenda: (string | Record<string, unknown>)[] }[]>()
+        .cursor()) {
+        // Sessions are subdocuments, give them the id attendees save them to their schedule with
+        const agenda = toSessions(event.agenda).map((session) => ({ _id: new Types.ObjectId(), ...session }));
+        await Event.updateOne({ _id: event._id }, { $set: { agenda } });
+        events++;
+      }
+
+      let series = 0;
+      for await (const { _id, template } of Series.find({ 'template.agenda.0': { $type: 'string' } })
+        .select('template')
+        .lean<{ _id: Types.ObjectId; template: { agenda: (string | Record<string, unknown>)[] } }[]>()
+        .cursor()) {
+        await Series.updateOne({ _id }, { $set: { 'template.agenda': toSessions(template.agenda) } });
+        series++;
+      }
+
+      return `converted the agenda of ${events} events and ${series} series`;
+    },
+  },
+  {
+    name: 'sync-indexes',
+    // Create new indexes and drop the ones removed from the schemas, e.g. the old unique (eventId, email) index
+    up: async () => {
+      const dropped: string[] = [];
+      for (const Model of [Event, Series, Speaker, Booking, Email, User, Session]) {
+        dropped.push(...(await Model.syncIndexes()));
+      }
+      return dropped.length > 0 ? `dropped ${dropped.join(', ')}` : 'indexes up to date';
+    },
+  },
+];
+
+async function migrate() {
+  await connectToDatabase();
+
+  for (const { name, up } of migrations) {
+    console.log(`🔄 ${name}: ${await up()}`);
+  }
+}
+
+migrate()
+  .then(async () => {
+    await disconnect();
+    process.exit(0);
+  })
+  .catch(async (error) => {
+    console.error('❌ Migration failed:', error);
+    await disconnect();
+    process.exit(1);
+  });
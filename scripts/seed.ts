@@ -0,0 +1,133 @@
+/**
+ * Seed the database with the events from lib/constants.ts
+ *
+ * Usage: npm run seed -- [--reset] [--dry-run]
+ *   --reset    Delete every event and booking before seeding
+ *   --dry-run  Validate the fixtures and report what would change without writing anything
+ *
+ * Seeding is idempotent: events are matched on slug and updated in place.
+ */
+import connectToDatabase, { disconnect } from '@/lib/mongoose';
+import { Booking, Event } from '@/database';
+import { events } from '@/lib/constants';
+import { toErrorBody } from '@/lib/errors';
+import { normalizeDate, normalizeTime } from '@/lib/event-rules';
+import { toEventFixture } from './fixtures';
+
+interface SeedOptions {
+  reset: boolean;
+  dryRun: boolean;
+}
+
+interface SeedFailure {
+  slug: string;
+  errors: Record<string, string>;
+}
+
+/**
+ * Parse command line flags, exiting on unknown ones
+ */
+function parseArgs(args: string[]): SeedOptions {
+  const options: SeedOptions = { reset: false, dryRun: false };
+
+  for (const arg of args) {
+    if (arg === '--reset') options.reset = true;
+    else if (arg === '--dry-run') options.dryRun = true;
+    else {
+      console.error(`Unknown option: ${arg}\nUsage: npm run seed -- [--reset] [--dry-run]`);
+      process.exit(1);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Run the checks the pre-save hook would, so dry runs report the same failures as real ones
+ */
+function checkNormalization(values: Record<string, unknown>): Record<string, string> {
+  const errors: Record<string, string> = {};
+
+  if (!normalizeDate(String(values.date))) {
+    errors.date = 'Date must be in a valid format (YYYY-MM-DD or ISO string)';
+  }
+  if (!normalizeTime(String(values.time))) {
+    errors.time = 'Time must be in HH:MM format';
+  }
+
+  return errors;
+}
+
+async function seed({ reset, dryRun }: SeedOptions) {
+  await connectToDatabase();
+
+  const prefix = dryRun ? '[dry run] ' : '';
+
+  if (reset) {
+    if (dryRun) {
+      const [eventCount, bookingCount] = await Promise.all([Event.countDocuments(), Booking.countDocuments()]);
+      console.log(`${prefix}🗑️  Would delete ${eventCount} events and ${bookingCount} bookings`);
+    } else {
+      const [deletedEvents, deletedBookings] = await Promise.all([Event.deleteMany({}), Booking.deleteMany({})]);
+      console.log(`🗑️  Deleted ${deletedEvents.deletedCount} events and ${deletedBookings.deletedCount} bookings`);
+    }
+  }
+
+  const failures: SeedFailure[] = [];
+  let created = 0;
+  let updated = 0;
+
+  for (const item of events) {
+    const { values, warnings } = toEventFixture(item);
+    warnings.forEach((warning) => console.warn(`${prefix}⚠️  ${item.slug}: ${warning}`));
+
+    try {
+      const existing = reset && dryRun ? null : await Event.findOne({ slug: item.slug });
+      const event = existing ?? new Event(values);
+      if (existing) existing.set(values);
+
+      if (dryRun) {
+        await event.validate();
+
+        const errors = checkNormalization(values);
+        if (Object.keys(errors).length > 0) {
+          failures.push({ slug: item.slug, errors });
+          continue;
+        }
+      } else {
+        await event.save();
+      }
+
+      if (existing) updated++;
+      else created++;
+      console.log(`${prefix}${existing ? '🔄 Updated' : '✅ Created'} ${item.slug}`);
+    } catch (error) {
+      const { body } = toErrorBody(error);
+      failures.push({ slug: item.slug, errors: body.errors ?? { _: body.message } });
+    }
+  }
+
+  for (const { slug, errors } of failures) {
+    console.error(`${prefix}❌ ${slug} failed validation:`);
+    for (const [field, message] of Object.entries(errors)) {
+      console.error(`     - ${field}: ${message}`);
+    }
+  }
+
+  console.log(
+    `${prefix}${dryRun ? 'Would create' : 'Created'} ${created}, ${dryRun ? 'update' : 'updated'} ${updated}, failed ${failures.length} of ${events.length} events`
+  );
+
+  return failures.length === 0;
+}
+
+seed(parseArgs(process.argv.slice(2)))
+  .then(async (ok) => {
+    await disconnect();
+    process.exit(ok ? 0 : 1);
+  })
+  .catch(async (error) => {
+    console.error('❌ Seeding failed:', error);
+    await disconnect();
+    process.exit(1);
+  });